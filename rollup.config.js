@@ -30,6 +30,53 @@ const config = [
       }),
     ],
   },
+  {
+    input: 'src/build.ts',
+    external: ['fs/promises', 'path'],
+    output: [
+      {
+        file: 'dist/build.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named',
+      },
+      {
+        file: 'dist/build.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: true,
+        declarationDir: './dist',
+        rootDir: './src',
+      }),
+    ],
+  },
+  {
+    input: 'src/bin.ts',
+    external: ['fs/promises', 'path'],
+    output: {
+      file: 'dist/bin.js',
+      format: 'cjs',
+      sourcemap: true,
+      banner: '#!/usr/bin/env node',
+    },
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: true,
+        declarationDir: './dist',
+        rootDir: './src',
+      }),
+    ],
+  },
 ];
 
 export default config;
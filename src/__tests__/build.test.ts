@@ -0,0 +1,212 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createContentstorageBuildPlugin, VIRTUAL_MODULE_ID } from '../build';
+
+describe('build plugin', () => {
+  let root: string;
+  const context = { addWatchFile: jest.fn() };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'contentstorage-'));
+    mkdirSync(join(root, 'locales'));
+    writeFileSync(join(root, 'locales/en.json'), JSON.stringify({ greeting: 'Hello' }));
+    writeFileSync(join(root, 'locales/en-checkout.yaml'), 'title: Checkout\n');
+    context.addWatchFile.mockClear();
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const load = (plugin: ReturnType<typeof createContentstorageBuildPlugin>, id: string) =>
+    (plugin.load as Function).call(context, `\0${id}`);
+
+  it('should resolve virtual module ids only', () => {
+    const plugin = createContentstorageBuildPlugin({ languages: ['en'] });
+    const resolveId = plugin.resolveId as Function;
+
+    expect(resolveId(VIRTUAL_MODULE_ID)).toBe(`\0${VIRTUAL_MODULE_ID}`);
+    expect(resolveId('virtual:contentstorage/en')).toBe('\0virtual:contentstorage/en');
+    expect(resolveId('virtual:contentstorage-other')).toBeNull();
+    expect(resolveId('./main.ts')).toBeNull();
+  });
+
+  it('should inline bundles read from local files', async () => {
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: (lng, ns) => `locales/${ns ? `${lng}-${ns}.yaml` : `${lng}.json`}`,
+      languages: ['en'],
+      root,
+    });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toBe(
+      'export default {"greeting":"Hello"};'
+    );
+    await expect(load(plugin, 'virtual:contentstorage/en/checkout')).resolves.toBe(
+      'export default {"title":"Checkout"};'
+    );
+    expect(context.addWatchFile).toHaveBeenCalledWith(join(root, 'locales/en.json'));
+  });
+
+  it('should resolve relative paths against the Vite root', async () => {
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: 'locales/{{lng}}.json',
+      languages: ['en'],
+    });
+    plugin.configResolved({ root });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toContain('Hello');
+  });
+
+  it('should read root-absolute paths from the public directory, then the root', async () => {
+    mkdirSync(join(root, 'public/locales'), { recursive: true });
+    writeFileSync(join(root, 'public/locales/en.json'), '{"greeting":"Public"}');
+    writeFileSync(join(root, 'locales/fr.json'), '{"greeting":"Root"}');
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: '/locales/{{lng}}.json',
+      languages: ['en', 'fr'],
+      root,
+    });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toContain('Public');
+    await expect(load(plugin, 'virtual:contentstorage/fr')).resolves.toContain('Root');
+    expect(context.addWatchFile).toHaveBeenCalledWith(
+      join(root, 'public/locales/en.json')
+    );
+  });
+
+  it("should use Vite's public directory for root-absolute paths", async () => {
+    mkdirSync(join(root, 'static/locales'), { recursive: true });
+    writeFileSync(join(root, 'static/locales/en.json'), '{"greeting":"Static"}');
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: '/locales/{{lng}}.json',
+      languages: ['en'],
+    });
+    plugin.configResolved({ root, publicDir: join(root, 'static') });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toContain('Static');
+  });
+
+  it('should read filesystem paths outside the root as-is', async () => {
+    mkdirSync(join(root, 'app'));
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: join(root, 'locales/{{lng}}.json'),
+      languages: ['en'],
+      root: join(root, 'app'),
+    });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toContain('Hello');
+  });
+
+  it('should fetch URLs with the custom request function', async () => {
+    const request = jest.fn(async () => ({ greeting: 'Remote' }));
+    const plugin = createContentstorageBuildPlugin({
+      contentKey: 'test-key',
+      request,
+      languages: ['en'],
+    });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toBe(
+      'export default {"greeting":"Remote"};'
+    );
+    expect(request).toHaveBeenCalledWith(
+      'https://cdn.contentstorage.app/test-key/content/EN.json',
+      expect.any(Object)
+    );
+  });
+
+  it('should reload bundles after a watched file changed', async () => {
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: 'locales/{{lng}}.json',
+      languages: ['en'],
+      root,
+    });
+    await load(plugin, 'virtual:contentstorage/en');
+
+    writeFileSync(join(root, 'locales/en.json'), JSON.stringify({ greeting: 'Hi' }));
+    (plugin.watchChange as Function)(join(root, 'locales/en.json'), { event: 'update' });
+
+    await expect(load(plugin, 'virtual:contentstorage/en')).resolves.toContain('Hi');
+  });
+
+  it('should list bundles and lazy-import them from the index module', async () => {
+    const plugin = createContentstorageBuildPlugin({
+      loadPath: (lng, ns) => `locales/${ns ? `${lng}-${ns}.yaml` : `${lng}.json`}`,
+      languages: ['en', 'fr'],
+      namespaces: ['checkout'],
+    });
+
+    const source: string = await load(plugin, VIRTUAL_MODULE_ID);
+
+    expect(source).toContain('export const languages = ["en","fr"];');
+    expect(source).toContain(
+      '"fr/checkout": () => import("virtual:contentstorage/fr/checkout"),'
+    );
+    expect(source).toContain('export function importTranslations(language, namespace)');
+  });
+
+  describe('index module', () => {
+    const getImportedIds = (source: string) =>
+      Array.from(source.matchAll(/import\("([^"]+)"\)/g), (match) => match[1]);
+
+    it('should only list loadable bundles for a {{ns}} loadPath', async () => {
+      mkdirSync(join(root, 'locales/en'));
+      writeFileSync(join(root, 'locales/en/checkout.json'), '{"title":"Checkout"}');
+      writeFileSync(join(root, 'locales/en/admin.json'), '{"title":"Admin"}');
+      const plugin = createContentstorageBuildPlugin({
+        loadPath: 'locales/{{lng}}/{{ns}}.json',
+        languages: ['en'],
+        namespaces: ['checkout', 'admin'],
+        root,
+      });
+
+      const ids = getImportedIds(await load(plugin, VIRTUAL_MODULE_ID));
+
+      expect(ids).toEqual([
+        'virtual:contentstorage/en/checkout',
+        'virtual:contentstorage/en/admin',
+      ]);
+      for (const id of ids) {
+        await expect(load(plugin, id)).resolves.toContain('"title"');
+      }
+    });
+
+    it('should load every bundle listed for a loadPath function', async () => {
+      const plugin = createContentstorageBuildPlugin({
+        loadPath: (lng, ns) => `locales/${ns ? `${lng}-${ns}.yaml` : `${lng}.json`}`,
+        languages: ['en'],
+        namespaces: ['checkout'],
+        root,
+      });
+
+      const ids = getImportedIds(await load(plugin, VIRTUAL_MODULE_ID));
+
+      expect(ids).toEqual([
+        'virtual:contentstorage/en',
+        'virtual:contentstorage/en/checkout',
+      ]);
+      for (const id of ids) {
+        await expect(load(plugin, id)).resolves.toMatch(/^export default \{/);
+      }
+    });
+
+    it('should reject namespaces the load path cannot express', () => {
+      expect(() =>
+        createContentstorageBuildPlugin({
+          contentKey: 'test-key',
+          languages: ['en'],
+          namespaces: ['checkout'],
+        })
+      ).toThrow('namespaces need a loadPath');
+    });
+
+    it('should reject a {{ns}} loadPath without namespaces', () => {
+      expect(() =>
+        createContentstorageBuildPlugin({
+          loadPath: 'locales/{{lng}}/{{ns}}.json',
+          languages: ['en'],
+        })
+      ).toThrow('list the namespaces');
+    });
+  });
+});
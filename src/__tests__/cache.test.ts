@@ -0,0 +1,76 @@
+import {
+  LocalStorageCacheAdapter,
+  IndexedDBCacheAdapter,
+  resolveCacheAdapter,
+} from '../cache';
+
+describe('cache', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe('LocalStorageCacheAdapter', () => {
+    it('should store and read entries', async () => {
+      const cache = new LocalStorageCacheAdapter();
+      const entry = { data: { greeting: 'Hello' }, timestamp: 123 };
+
+      await cache.set('en', entry);
+
+      expect(await cache.get('en')).toEqual(entry);
+      expect(window.localStorage.getItem('contentstorage:en')).not.toBeNull();
+    });
+
+    it('should use custom prefix', async () => {
+      const cache = new LocalStorageCacheAdapter('my-app:');
+
+      await cache.set('en', { data: {}, timestamp: 1 });
+
+      expect(window.localStorage.getItem('my-app:en')).not.toBeNull();
+    });
+
+    it('should return null for missing entries', async () => {
+      const cache = new LocalStorageCacheAdapter();
+
+      expect(await cache.get('fr')).toBeNull();
+    });
+
+    it('should return null for corrupted entries', async () => {
+      const cache = new LocalStorageCacheAdapter();
+      window.localStorage.setItem('contentstorage:en', '{not json');
+
+      expect(await cache.get('en')).toBeNull();
+    });
+
+    it('should remove entries', async () => {
+      const cache = new LocalStorageCacheAdapter();
+      await cache.set('en', { data: {}, timestamp: 1 });
+
+      await cache.remove('en');
+
+      expect(await cache.get('en')).toBeNull();
+    });
+  });
+
+  describe('resolveCacheAdapter', () => {
+    it('should return null when not configured', () => {
+      expect(resolveCacheAdapter(undefined)).toBeNull();
+    });
+
+    it('should create built-in adapters by name', () => {
+      expect(resolveCacheAdapter('localStorage')).toBeInstanceOf(
+        LocalStorageCacheAdapter
+      );
+      expect(resolveCacheAdapter('indexedDB')).toBeInstanceOf(IndexedDBCacheAdapter);
+    });
+
+    it('should return custom adapters as-is', () => {
+      const custom = {
+        get: jest.fn(),
+        set: jest.fn(),
+        remove: jest.fn(),
+      };
+
+      expect(resolveCacheAdapter(custom)).toBe(custom);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { ContentstorageEventEmitter } from '../events';
+
+describe('ContentstorageEventEmitter', () => {
+  it('should call registered handlers with the payload', () => {
+    const events = new ContentstorageEventEmitter();
+    const handler = jest.fn();
+
+    events.on('cacheHit', handler);
+    events.emit('cacheHit', { language: 'en', cache: 'memory' });
+
+    expect(handler).toHaveBeenCalledWith({ language: 'en', cache: 'memory' });
+  });
+
+  it('should register hooks passed to the constructor', () => {
+    const loadError = jest.fn();
+    const events = new ContentstorageEventEmitter({ loadError });
+
+    events.emit('loadError', {
+      language: 'en',
+      url: '/en.json',
+      background: false,
+      error: new Error('fail'),
+    });
+
+    expect(loadError).toHaveBeenCalled();
+    expect(events.has('loadError')).toBe(true);
+    expect(events.has('loadStart')).toBe(false);
+  });
+
+  it('should remove handlers with off and the returned function', () => {
+    const events = new ContentstorageEventEmitter();
+    const first = jest.fn();
+    const second = jest.fn();
+
+    events.on('memoryMapCleared', first);
+    const unsubscribe = events.on('memoryMapCleared', second);
+
+    events.off('memoryMapCleared', first);
+    unsubscribe();
+    events.emit('memoryMapCleared', {});
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should isolate errors thrown by handlers', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const events = new ContentstorageEventEmitter();
+    const after = jest.fn();
+
+    events.on('liveModeDetected', () => {
+      throw new Error('handler failed');
+    });
+    events.on('liveModeDetected', after);
+
+    expect(() => events.emit('liveModeDetected', {})).not.toThrow();
+    expect(after).toHaveBeenCalled();
+    expect(consoleSpy).toHaveBeenCalledWith(
+      expect.stringContaining('liveModeDetected'),
+      expect.any(Error)
+    );
+
+    consoleSpy.mockRestore();
+  });
+});
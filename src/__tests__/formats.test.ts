@@ -0,0 +1,49 @@
+import {
+  DEFAULT_FORMATS,
+  jsonFormat,
+  poFormat,
+  resolveFormat,
+  xliffFormat,
+  yamlFormat,
+} from '../formats';
+import type { TranslationFormat } from '../types';
+
+describe('formats', () => {
+  describe('resolveFormat', () => {
+    it('should pick the format by file extension', () => {
+      expect(resolveFormat(DEFAULT_FORMATS, '/locales/en.yml')).toBe(yamlFormat);
+      expect(resolveFormat(DEFAULT_FORMATS, '/locales/de.po?v=2#top')).toBe(poFormat);
+      expect(resolveFormat(DEFAULT_FORMATS, 'https://cdn.test/fr.XLF')).toBe(xliffFormat);
+    });
+
+    it('should prefer the content type over the extension', () => {
+      expect(
+        resolveFormat(
+          DEFAULT_FORMATS,
+          '/api/en.json',
+          'application/x-yaml; charset=utf-8'
+        )
+      ).toBe(yamlFormat);
+    });
+
+    it('should fall through generic content types to the extension', () => {
+      expect(resolveFormat(DEFAULT_FORMATS, '/en.yaml', 'text/plain')).toBe(yamlFormat);
+    });
+
+    it('should default to JSON', () => {
+      expect(resolveFormat(DEFAULT_FORMATS, 'https://cdn.test/api/en')).toBe(jsonFormat);
+      expect(resolveFormat(DEFAULT_FORMATS, 'https://cdn.test/v1.2/en')).toBe(jsonFormat);
+    });
+
+    it('should honour format priority', () => {
+      const customYaml: TranslationFormat = {
+        name: 'custom-yaml',
+        extensions: ['yml'],
+        contentTypes: [],
+        parse: () => ({}),
+      };
+
+      expect(resolveFormat([customYaml, ...DEFAULT_FORMATS], '/en.yml')).toBe(customYaml);
+    });
+  });
+});
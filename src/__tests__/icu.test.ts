@@ -0,0 +1,69 @@
+import { convertIcuMessage, icuTransformer } from '../icu';
+
+describe('icu', () => {
+  describe('convertIcuMessage', () => {
+    it('should keep plain text and simple arguments', () => {
+      expect(convertIcuMessage('Hello {name}!')).toBe('Hello {name}!');
+    });
+
+    it('should reduce formatted arguments to placeholders', () => {
+      expect(convertIcuMessage('Total: {price, number, ::currency/EUR}')).toBe(
+        'Total: {price}'
+      );
+      expect(convertIcuMessage('Due {date, date, short}')).toBe('Due {date}');
+    });
+
+    it('should convert plurals to pipe-separated forms', () => {
+      expect(convertIcuMessage('{count, plural, one {# item} other {# items}}')).toBe(
+        '{n} item | {n} items'
+      );
+      expect(
+        convertIcuMessage(
+          'You have {count, plural, =0 {no messages} =1 {one message} other {# messages}}.'
+        )
+      ).toBe('You have no messages. | You have one message. | You have {n} messages.');
+    });
+
+    it('should use the other form when one is missing', () => {
+      expect(convertIcuMessage('{count, plural, other {# files}}')).toBe(
+        '{n} files | {n} files'
+      );
+    });
+
+    it('should convert ICU quoting and escape vue-i18n syntax characters', () => {
+      expect(convertIcuMessage("It''s '{literal}'")).toBe("It's {'{'}literal{'}'}");
+      expect(convertIcuMessage("Don't mail me@example.com | ok")).toBe(
+        "Don't mail me{'@'}example.com {'|'} ok"
+      );
+    });
+
+    it('should leave messages without a vue-i18n equivalent unchanged', () => {
+      const select = '{gender, select, female {She} other {They}} replied';
+      const nested = '{a, plural, one {{b, plural, one {x} other {y}}} other {z}}';
+      const offset =
+        '{count, plural, offset:1 =0 {Nobody} one {You and # other} other {You and # others}}';
+
+      expect(convertIcuMessage(select)).toBe(select);
+      expect(convertIcuMessage(nested)).toBe(nested);
+      expect(convertIcuMessage(offset)).toBe(offset);
+      expect(convertIcuMessage('Unbalanced {name')).toBe('Unbalanced {name');
+    });
+  });
+
+  describe('icuTransformer', () => {
+    it('should convert every message in a bundle', () => {
+      const result = icuTransformer(
+        {
+          cart: { items: '{count, plural, one {# item} other {# items}}' },
+          tips: ['Use {key}', 'Say @hello'],
+        },
+        { language: 'en', url: '/en.json' }
+      );
+
+      expect(result).toEqual({
+        cart: { items: '{n} item | {n} items' },
+        tips: ['Use {key}', "Say {'@'}hello"],
+      });
+    });
+  });
+});
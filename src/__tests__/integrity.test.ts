@@ -0,0 +1,47 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { BundleIntegrityError, computeIntegrity, verifyIntegrity } from '../integrity';
+
+// jsdom doesn't expose Web Crypto or TextEncoder
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+Object.defineProperty(globalThis, 'TextEncoder', {
+  value: TextEncoder,
+  configurable: true,
+});
+
+describe('integrity', () => {
+  describe('computeIntegrity', () => {
+    it('should compute SRI-style hashes', async () => {
+      // echo -n '{"a":"b"}' | openssl dgst -sha256 -binary | base64
+      await expect(computeIntegrity('{"a":"b"}')).resolves.toBe(
+        'sha256-20p+yxFLxmxiOgbE/2/o2qL0nMJw6796H4HiKrBhyDc='
+      );
+      await expect(computeIntegrity('x', 'sha512')).resolves.toMatch(/^sha512-/);
+    });
+  });
+
+  describe('verifyIntegrity', () => {
+    it('should match any of several hashes', async () => {
+      const hash = await computeIntegrity('{"a":"b"}', 'sha384');
+
+      await expect(verifyIntegrity('{"a":"b"}', `sha256-AAAA ${hash}`)).resolves.toBe(
+        true
+      );
+      await expect(verifyIntegrity('{"a":"c"}', hash)).resolves.toBe(false);
+    });
+
+    it('should never match unsupported algorithms', async () => {
+      await expect(verifyIntegrity('x', 'md5-AAAA')).resolves.toBe(false);
+    });
+  });
+
+  describe('BundleIntegrityError', () => {
+    it('should describe the failure', () => {
+      const error = new BundleIntegrityError('en', '/en.json', 'mismatch');
+
+      expect(error.name).toBe('BundleIntegrityError');
+      expect(error.reason).toBe('mismatch');
+      expect(error.message).toContain('en (/en.json)');
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { parseLinkedReferences, resolveLinkedMessage } from '../linked';
+
+describe('parseLinkedReferences', () => {
+  it('should parse keys, modifiers and placeholder keys', () => {
+    expect(
+      parseLinkedReferences("@:common.appName by @.upper:team {'@'} @:{'a b'} @:{target}")
+    ).toEqual([
+      { source: '@:common.appName', key: 'common.appName' },
+      { source: '@.upper:team', key: 'team', modifier: 'upper' },
+      { source: "@:{'a b'}", key: 'a b' },
+      { source: '@:{target}', key: 'target', named: true },
+    ]);
+  });
+
+  it('should end keys where vue-i18n does', () => {
+    expect(parseLinkedReferences('(@:brand) @:a|b')).toEqual([
+      { source: '@:brand', key: 'brand' },
+      { source: '@:a', key: 'a' },
+    ]);
+    expect(parseLinkedReferences('mail@example.com')).toEqual([]);
+    // Punctuation is part of the key, as in vue-i18n; quote keys to end them
+    expect(parseLinkedReferences('@:brand!')).toEqual([
+      { source: '@:brand!', key: 'brand!' },
+    ]);
+  });
+});
+
+describe('resolveLinkedMessage', () => {
+  const messages: Record<string, string> = {
+    appName: 'Acme',
+    tagline: '@:appName for {audience}',
+    greeting: 'hello world',
+    loopA: '@:loopB',
+    loopB: '@:loopA',
+  };
+  const lookup = (key: string) => messages[key];
+
+  it('should resolve references recursively, keeping placeholders', () => {
+    expect(resolveLinkedMessage("Try @:{'tagline'}!", lookup, undefined, 'cta')).toEqual({
+      message: 'Try Acme for {audience}!',
+      fragments: [
+        { key: 'tagline', parent: 'cta', message: 'Acme for {audience}' },
+        { key: 'appName', parent: 'tagline', message: 'Acme' },
+      ],
+    });
+  });
+
+  it('should apply built-in modifiers outside placeholders', () => {
+    expect(resolveLinkedMessage('@.upper:tagline', lookup).message).toBe(
+      'ACME FOR {audience}'
+    );
+    expect(resolveLinkedMessage('@.capitalize:greeting', lookup).message).toBe(
+      'Hello world'
+    );
+    expect(resolveLinkedMessage('@.custom:greeting', lookup).message).toBe('hello world');
+  });
+
+  it('should resolve named keys from interpolation values', () => {
+    expect(
+      resolveLinkedMessage('@:{target}', lookup, { target: 'appName' }).message
+    ).toBe('Acme');
+    expect(resolveLinkedMessage('@:{target}', lookup).message).toBe('@:{target}');
+  });
+
+  it('should leave unknown keys and cycles as written', () => {
+    expect(resolveLinkedMessage('@:missing', lookup)).toEqual({
+      message: '@:missing',
+      fragments: [],
+    });
+    expect(resolveLinkedMessage('@:loopB', lookup, undefined, 'loopA').message).toBe(
+      '@:loopA'
+    );
+  });
+});
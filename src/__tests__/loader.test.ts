@@ -1,4 +1,7 @@
 import { ContentstorageLoader, createContentstorageLoader } from '../loader';
+import { TranslationValidationError } from '../validation';
+import { BundleIntegrityError } from '../integrity';
+import type { ContentstorageVueI18nOptions } from '../types';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -119,6 +122,248 @@ describe('ContentstorageLoader', () => {
     });
   });
 
+  describe('validation', () => {
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should reject non-object payloads even without validation', async () => {
+      const plainLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        validation: false,
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(success('not json object'));
+
+      await expect(plainLoader.loadTranslations('en')).rejects.toBeInstanceOf(
+        TranslationValidationError
+      );
+      expect(plainLoader.isCached('en')).toBe(false);
+    });
+
+    it('should omit invalid keys by default', async () => {
+      const defaultLoader = new ContentstorageLoader({ contentKey: 'test-key' });
+      (global.fetch as jest.Mock).mockResolvedValue(
+        success({ greeting: 'Hello {name', count: 1, empty: null, title: 'Title' })
+      );
+
+      expect(await defaultLoader.loadTranslations('en')).toEqual({ title: 'Title' });
+    });
+
+    it('should report omitted keys with a validationIssues event', async () => {
+      const validationIssues = jest.fn();
+      const defaultLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        hooks: { validationIssues },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(
+        success({ greeting: 'Hello {name', title: 'Title' })
+      );
+
+      await defaultLoader.loadTranslations('en');
+
+      expect(validationIssues).toHaveBeenCalledTimes(1);
+      expect(validationIssues).toHaveBeenCalledWith({
+        language: 'en',
+        url: expect.stringContaining('EN.json'),
+        issues: [expect.objectContaining({ key: 'greeting' })],
+      });
+    });
+
+    it('should reject bundles with invalid keys when configured', async () => {
+      const loadError = jest.fn();
+      const validatingLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        validation: { onInvalid: 'reject' },
+        hooks: { loadError },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(
+        success({ greeting: 'Hello {name', count: 1 })
+      );
+
+      const error = await validatingLoader.loadTranslations('en').catch((e) => e);
+
+      expect(error).toBeInstanceOf(TranslationValidationError);
+      expect(error.issues.map((issue: { key: string }) => issue.key)).toEqual([
+        'greeting',
+        'count',
+      ]);
+      expect(loadError).toHaveBeenCalledWith(expect.objectContaining({ error }));
+    });
+
+    it('should sanitize HTML when configured', async () => {
+      const lenientLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        validation: { onInvalid: 'omit', sanitizeHtml: true },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(
+        success({ greeting: 'Hello {name', html: 'Hi<script>x()</script>' })
+      );
+
+      expect(await lenientLoader.loadTranslations('en')).toEqual({ html: 'Hi' });
+    });
+  });
+
+  describe('locale mapping', () => {
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should apply the mapping to the default CDN URL', async () => {
+      const mappedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        localeMapping: { case: 'preserve', map: { 'en-US': 'EN' } },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      await mappedLoader.loadTranslations('zh_hant');
+      await mappedLoader.loadTranslations('en-US');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://cdn.contentstorage.app/test-key/content/zh-Hant.json',
+        expect.any(Object)
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://cdn.contentstorage.app/test-key/content/EN.json',
+        expect.any(Object)
+      );
+    });
+
+    it('should only uppercase the default CDN URL without a mapping', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      await new ContentstorageLoader({ contentKey: 'test-key' }).loadTranslations(
+        'pt_BR'
+      );
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://cdn.contentstorage.app/test-key/content/PT_BR.json',
+        expect.any(Object)
+      );
+    });
+
+    it('should only map {{lng}} when a mapping is configured', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      await new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+      }).loadTranslations('pt-BR');
+      await new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+        localeMapping: { case: 'lower' },
+      }).loadTranslations('pt-BR');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/locales/pt-BR.json',
+        expect.any(Object)
+      );
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/locales/pt-br.json',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('namespaces', () => {
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should substitute {{ns}} in loadPath', async () => {
+      const nsLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(success({ title: 'Checkout' }));
+
+      const result = await nsLoader.loadNamespace('en', 'checkout');
+
+      expect(result).toEqual({ title: 'Checkout' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/locales/en/checkout.json',
+        expect.any(Object)
+      );
+    });
+
+    it('should pass the namespace to a loadPath function', async () => {
+      const loadPath = jest.fn((lng: string, ns?: string) => `/api/${lng}/${ns}`);
+      const nsLoader = new ContentstorageLoader({ loadPath });
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      await nsLoader.loadNamespace('es', 'admin');
+
+      expect(loadPath).toHaveBeenCalledWith('es', 'admin');
+      expect(global.fetch).toHaveBeenCalledWith('/api/es/admin', expect.any(Object));
+    });
+
+    it('should cache namespaces separately from languages', async () => {
+      const nsLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(success({ title: 'Checkout' }));
+
+      await nsLoader.loadNamespace('en', 'checkout');
+      await nsLoader.loadNamespace('en', 'checkout');
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(nsLoader.isCached('en', 'checkout')).toBe(true);
+      expect(nsLoader.isCached('en')).toBe(false);
+      expect(nsLoader.getCachedLanguages()).toEqual([]);
+      expect(nsLoader.getCachedNamespaces('en')).toEqual(['checkout']);
+    });
+
+    it('should clear all namespaces of a language', async () => {
+      const nsLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      await nsLoader.loadNamespace('en', 'checkout');
+      await nsLoader.loadNamespace('en', 'admin');
+      await nsLoader.loadNamespace('es', 'checkout');
+
+      nsLoader.clearCache('en', 'admin');
+      expect(nsLoader.getCachedNamespaces('en')).toEqual(['checkout']);
+
+      nsLoader.clearCache('en');
+      expect(nsLoader.getCachedNamespaces('en')).toEqual([]);
+      expect(nsLoader.isCached('es', 'checkout')).toBe(true);
+    });
+
+    it('should include the namespace in events', async () => {
+      const loadStart = jest.fn();
+      const nsLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+        hooks: { loadStart },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      await nsLoader.loadNamespace('en', 'checkout');
+
+      expect(loadStart).toHaveBeenCalledWith({
+        language: 'en',
+        namespace: 'checkout',
+        url: '/locales/en/checkout.json',
+        background: false,
+      });
+    });
+
+    it('should reject namespaces when loadPath has no {{ns}} placeholder', async () => {
+      await expect(loader.loadNamespace('en', 'checkout')).rejects.toThrow('{{ns}}');
+
+      const plainLoader = new ContentstorageLoader({ loadPath: '/locales/{{lng}}.json' });
+      await expect(plainLoader.loadNamespace('en', 'checkout')).rejects.toThrow(
+        'checkout'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject language bundles when loadPath needs a namespace', async () => {
+      const nsLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+      });
+
+      expect(nsLoader.hasLanguageBundles).toBe(false);
+      expect(loader.hasLanguageBundles).toBe(true);
+      await expect(nsLoader.loadTranslations('fr')).rejects.toThrow(
+        'Cannot load the fr language bundle'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('custom request', () => {
     it('should use custom request function', async () => {
       const customRequest = jest.fn().mockResolvedValue({ custom: 'data' });
@@ -134,6 +379,153 @@ describe('ContentstorageLoader', () => {
       expect(result).toEqual({ custom: 'data' });
       expect(global.fetch).not.toHaveBeenCalled();
     });
+
+    it('should parse raw file content returned by a custom request', async () => {
+      const customLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.yaml',
+        request: jest.fn().mockResolvedValue('greeting: Hallo\n'),
+      });
+
+      await expect(customLoader.loadTranslations('de')).resolves.toEqual({
+        greeting: 'Hallo',
+      });
+    });
+  });
+
+  describe('file formats', () => {
+    it('should parse bundles by content type', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        headers: {
+          get: (name: string) => (name === 'Content-Type' ? 'text/yaml' : null),
+        },
+        json: async () => {
+          throw new Error('not JSON');
+        },
+        text: async () => 'nav:\n  home: Start\n',
+      });
+
+      await expect(loader.loadTranslations('de')).resolves.toEqual({
+        nav: { home: 'Start' },
+      });
+    });
+
+    it('should parse bundles by file extension and send a matching Accept header', async () => {
+      const poLoader = new ContentstorageLoader({ loadPath: '/locales/{{lng}}.po' });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => 'msgid "greeting"\nmsgstr "Bonjour"\n',
+      });
+
+      await expect(poLoader.loadTranslations('fr')).resolves.toEqual({
+        greeting: 'Bonjour',
+      });
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/locales/fr.po',
+        expect.objectContaining({
+          headers: { Accept: 'text/x-gettext-translation' },
+        })
+      );
+    });
+
+    it('should reject non-JSON responses without text()', async () => {
+      const yamlLoader = new ContentstorageLoader({ loadPath: '/locales/{{lng}}.yml' });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({}),
+      });
+
+      await expect(yamlLoader.loadTranslations('en')).rejects.toThrow('text()');
+    });
+
+    it('should use registered formats first', async () => {
+      const csvLoader = new ContentstorageLoader({ loadPath: '/locales/{{lng}}.csv' });
+      csvLoader.registerFormat({
+        name: 'csv',
+        extensions: ['csv'],
+        contentTypes: ['text/csv'],
+        parse: (body) =>
+          Object.fromEntries(
+            body
+              .trim()
+              .split('\n')
+              .map((line) => line.split(','))
+          ),
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        text: async () => 'greeting,Hello\nfarewell,Bye',
+      });
+
+      await expect(csvLoader.loadTranslations('en')).resolves.toEqual({
+        greeting: 'Hello',
+        farewell: 'Bye',
+      });
+    });
+
+    it('should convert ICU messages when messageSyntax is icu', async () => {
+      const icuLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        messageSyntax: 'icu',
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ items: '{count, plural, one {# item} other {# items}}' }),
+      });
+
+      await expect(icuLoader.loadTranslations('en')).resolves.toEqual({
+        items: '{n} item | {n} items',
+      });
+    });
+
+    it('should report unconverted ICU select messages by default', async () => {
+      const validationIssues = jest.fn();
+      const icuLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        messageSyntax: 'icu',
+        hooks: { validationIssues },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          title: 'Title',
+          pronoun: '{gender, select, male {he} other {they}}',
+        }),
+      });
+
+      await expect(icuLoader.loadTranslations('en')).resolves.toEqual({ title: 'Title' });
+      expect(validationIssues).toHaveBeenCalledWith(
+        expect.objectContaining({ issues: [expect.objectContaining({ key: 'pronoun' })] })
+      );
+    });
+
+    it('should run transformers in order before validation', async () => {
+      const upper = jest.fn((translations: Record<string, unknown>) => ({
+        ...translations,
+        shout: String(translations.greeting).toUpperCase(),
+      }));
+      const transformLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+        transformers: [upper],
+        validation: { onInvalid: 'reject' },
+      });
+      transformLoader.registerTransformer((translations) => ({
+        ...translations,
+        broken: '{unclosed',
+      }));
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'hi' }),
+      });
+
+      await expect(transformLoader.loadNamespace('en', 'common')).rejects.toThrow(
+        TranslationValidationError
+      );
+      expect(upper).toHaveBeenCalledWith(
+        { greeting: 'hi' },
+        { language: 'en', namespace: 'common', url: '/locales/en/common.json' }
+      );
+    });
   });
 
   describe('cache management', () => {
@@ -176,6 +568,1082 @@ describe('ContentstorageLoader', () => {
     });
   });
 
+  describe('memory cache limits', () => {
+    let now: jest.SpyInstance;
+
+    beforeEach(() => {
+      now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      (global.fetch as jest.Mock).mockImplementation(async () => ({
+        ok: true,
+        json: async () => ({ greeting: 'Hello', nested: { title: 'Title' } }),
+      }));
+    });
+
+    afterEach(() => now.mockRestore());
+
+    it('should describe cached bundles', async () => {
+      await loader.loadTranslations('en');
+      now.mockReturnValue(3000);
+      loader.primeCache('de', { greeting: 'Hallo' });
+
+      expect(loader.getCacheEntries()).toEqual([
+        {
+          language: 'en',
+          source: 'network',
+          size: JSON.stringify({ greeting: 'Hello', nested: { title: 'Title' } }).length,
+          keys: 2,
+          cachedAt: 1000,
+          lastUsedAt: 1000,
+          age: 2000,
+          expired: false,
+        },
+        expect.objectContaining({ language: 'de', source: 'primed', age: 0 }),
+      ]);
+    });
+
+    it('should reload bundles after their TTL', async () => {
+      const ttlLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        memoryCache: { ttl: 5000 },
+      });
+      await ttlLoader.loadTranslations('en');
+
+      now.mockReturnValue(6000);
+      await ttlLoader.loadTranslations('en');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(6001);
+      expect(ttlLoader.getCacheEntries()[0].expired).toBe(true);
+      await ttlLoader.loadTranslations('en');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(ttlLoader.getCacheEntries()[0]).toMatchObject({ cachedAt: 6001 });
+    });
+
+    it('should evict the least recently used languages', async () => {
+      const cacheEvicted = jest.fn();
+      const lruLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+        memoryCache: { maxLanguages: 2 },
+        hooks: { cacheEvicted },
+      });
+      await lruLoader.loadNamespace('en', 'common');
+      await lruLoader.loadNamespace('en', 'admin');
+      await lruLoader.loadNamespace('de', 'common');
+      await lruLoader.loadNamespace('en', 'common');
+      await lruLoader.loadNamespace('fr', 'common');
+
+      expect(lruLoader.getCachedNamespaces('en')).toEqual(['common', 'admin']);
+      expect(lruLoader.getCachedNamespaces('de')).toEqual([]);
+      expect(cacheEvicted).toHaveBeenCalledTimes(1);
+      expect(cacheEvicted).toHaveBeenCalledWith({
+        language: 'de',
+        namespace: 'common',
+        reason: 'lru',
+      });
+    });
+
+    it('should prune expired bundles', async () => {
+      const cacheEvicted = jest.fn();
+      const ttlLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        memoryCache: { ttl: 5000 },
+        hooks: { cacheEvicted },
+      });
+      await ttlLoader.loadTranslations('en');
+      now.mockReturnValue(4000);
+      await ttlLoader.loadTranslations('de');
+
+      now.mockReturnValue(7000);
+      expect(ttlLoader.pruneCache()).toBe(1);
+
+      expect(ttlLoader.getCachedLanguages()).toEqual(['de']);
+      expect(cacheEvicted).toHaveBeenCalledWith({ language: 'en', reason: 'expired' });
+    });
+  });
+
+  describe('preview mode', () => {
+    const draft = (language: string) => `https://drafts.example.com/${language}.json`;
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => ({ greeting: url.includes('drafts') ? 'Draft' : 'Published' }),
+      }));
+    });
+
+    it('should load drafts with preview headers and bypass the persistent cache', async () => {
+      const persistentCache = { get: jest.fn(), set: jest.fn(), remove: jest.fn() };
+      const previewLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache,
+        preview: {
+          loadPath: 'https://drafts.example.com/{{lng}}.json',
+          headers: async () => ({ Authorization: 'Bearer editor' }),
+        },
+      });
+      previewLoader.setPreviewMode(true);
+
+      await expect(previewLoader.loadTranslations('en')).resolves.toEqual({
+        greeting: 'Draft',
+      });
+
+      expect(previewLoader.inPreviewMode).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith(
+        draft('en'),
+        expect.objectContaining({
+          headers: { Accept: 'application/json', Authorization: 'Bearer editor' },
+        })
+      );
+      expect(persistentCache.get).not.toHaveBeenCalled();
+      expect(persistentCache.set).not.toHaveBeenCalled();
+    });
+
+    it('should reload bundles from the other source when switching', async () => {
+      const previewLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        preview: { loadPath: (lng) => draft(lng) },
+      });
+      await expect(previewLoader.loadTranslations('en')).resolves.toEqual({
+        greeting: 'Published',
+      });
+
+      previewLoader.setPreviewMode(true);
+      expect(previewLoader.isCached('en')).toBe(false);
+      await expect(previewLoader.loadTranslations('en')).resolves.toEqual({
+        greeting: 'Draft',
+      });
+    });
+
+    it('should require preview options', () => {
+      expect(() => loader.setPreviewMode(true)).toThrow('requires the preview option');
+    });
+  });
+
+  describe('build-time imports', () => {
+    it('should import bundles instead of fetching them', async () => {
+      const importTranslations = jest.fn(
+        async (language: string, namespace?: string) => ({
+          title: `${language}:${namespace}`,
+        })
+      );
+      const importLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        importTranslations,
+      });
+
+      await expect(importLoader.loadNamespace('en', 'checkout')).resolves.toEqual({
+        title: 'en:checkout',
+      });
+      await expect(importLoader.refresh('en', 'checkout')).resolves.toBeNull();
+
+      expect(importTranslations).toHaveBeenCalledTimes(1);
+      expect(importLoader.getCacheEntries()[0].source).toBe('imported');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should fetch drafts in preview mode', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Draft' }),
+      });
+      const importLoader = new ContentstorageLoader({
+        importTranslations: async () => ({ greeting: 'Built' }),
+        preview: { loadPath: '/drafts/{{lng}}.json' },
+      });
+      importLoader.setPreviewMode(true);
+
+      await expect(importLoader.loadTranslations('en')).resolves.toEqual({
+        greeting: 'Draft',
+      });
+    });
+  });
+
+  describe('persistent cache', () => {
+    const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+    const url = 'https://cdn.contentstorage.app/test-key/content/EN.json';
+
+    const createMemoryCache = (entries: Record<string, any> = {}) => ({
+      entries,
+      get: jest.fn(async (key: string) => entries[key] || null),
+      set: jest.fn(async (key: string, entry: any) => {
+        entries[key] = entry;
+      }),
+      remove: jest.fn(async (key: string) => {
+        delete entries[key];
+      }),
+    });
+
+    it('should persist fetched translations', async () => {
+      const cache = createMemoryCache();
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hello' }),
+      });
+
+      await cachedLoader.loadTranslations('en');
+
+      expect(cache.set).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({ data: { greeting: 'Hello' } })
+      );
+    });
+
+    it('should serve persisted translations and revalidate in background', async () => {
+      const cache = createMemoryCache({
+        [url]: { data: { greeting: 'Old' }, timestamp: Date.now() },
+      });
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+      const listener = jest.fn();
+      cachedLoader.onUpdate(listener);
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'New' }),
+      });
+
+      const result = await cachedLoader.loadTranslations('en');
+
+      expect(result).toEqual({ greeting: 'Old' });
+
+      await flushPromises();
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('en', { greeting: 'New' });
+      expect(await cachedLoader.loadTranslations('en')).toEqual({ greeting: 'New' });
+      expect(cache.entries[url].data).toEqual({ greeting: 'New' });
+    });
+
+    it('should not notify listeners when revalidated content is unchanged', async () => {
+      const cache = createMemoryCache({
+        [url]: { data: { greeting: 'Same' }, timestamp: Date.now() },
+      });
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+      const listener = jest.fn();
+      cachedLoader.onUpdate(listener);
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Same' }),
+      });
+
+      await cachedLoader.loadTranslations('en');
+      await flushPromises();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should ignore persisted translations older than TTL', async () => {
+      const cache = createMemoryCache({
+        [url]: { data: { greeting: 'Expired' }, timestamp: Date.now() - 10000 },
+      });
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+        persistentCacheTtl: 5000,
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Fresh' }),
+      });
+
+      const result = await cachedLoader.loadTranslations('en');
+
+      expect(result).toEqual({ greeting: 'Fresh' });
+    });
+
+    it('should keep serving persisted translations if revalidation fails', async () => {
+      const cache = createMemoryCache({
+        [url]: { data: { greeting: 'Cached' }, timestamp: Date.now() },
+      });
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+
+      const result = await cachedLoader.loadTranslations('en');
+      await flushPromises();
+
+      expect(result).toEqual({ greeting: 'Cached' });
+      expect(await cachedLoader.loadTranslations('en')).toEqual({ greeting: 'Cached' });
+    });
+
+    it('should remove persisted entries when clearing cache', async () => {
+      const cache = createMemoryCache();
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hello' }),
+      });
+
+      await cachedLoader.loadTranslations('en');
+      cachedLoader.clearCache('en');
+
+      expect(cache.remove).toHaveBeenCalledWith(url);
+    });
+  });
+
+  describe('conditional requests', () => {
+    const flushPromises = () => new Promise((resolve) => setTimeout(resolve, 0));
+    const url = 'https://cdn.contentstorage.app/test-key/content/EN.json';
+
+    const createResponse = (
+      status: number,
+      body: unknown,
+      headers: Record<string, string> = {}
+    ) => ({
+      status,
+      statusText: status === 304 ? 'Not Modified' : 'OK',
+      ok: status >= 200 && status < 300,
+      headers: { get: (name: string) => headers[name] ?? null },
+      json: async () => body,
+    });
+
+    const createMemoryCache = (entries: Record<string, any> = {}) => ({
+      entries,
+      get: jest.fn(async (key: string) => entries[key] || null),
+      set: jest.fn(async (key: string, entry: any) => {
+        entries[key] = entry;
+      }),
+      remove: jest.fn(async () => undefined),
+    });
+
+    it('should persist ETag and Last-Modified with the bundle', async () => {
+      const cache = createMemoryCache();
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue(
+        createResponse(
+          200,
+          { greeting: 'Hello' },
+          { ETag: '"v1"', 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' }
+        )
+      );
+
+      await cachedLoader.loadTranslations('en');
+
+      expect(cache.entries[url]).toEqual(
+        expect.objectContaining({
+          etag: '"v1"',
+          lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+        })
+      );
+    });
+
+    it('should send validators when revalidating a persisted bundle', async () => {
+      const cache = createMemoryCache({
+        [url]: { data: { greeting: 'Hello' }, timestamp: Date.now(), etag: '"v1"' },
+      });
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+      });
+      const listener = jest.fn();
+      cachedLoader.onUpdate(listener);
+
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(304, null));
+
+      await cachedLoader.loadTranslations('en');
+      await flushPromises();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({
+          headers: { Accept: 'application/json', 'If-None-Match': '"v1"' },
+        })
+      );
+      expect(listener).not.toHaveBeenCalled();
+      expect(cache.entries[url].etag).toBe('"v1"');
+    });
+
+    it('should reuse an expired persisted bundle on 304', async () => {
+      const cache = createMemoryCache({
+        [url]: {
+          data: { greeting: 'Hello' },
+          timestamp: Date.now() - 10000,
+          lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+        },
+      });
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+        persistentCacheTtl: 5000,
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(304, null));
+
+      const result = await cachedLoader.loadTranslations('en');
+
+      expect(result).toEqual({ greeting: 'Hello' });
+      expect(global.fetch).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+          }),
+        })
+      );
+      expect(Date.now() - cache.entries[url].timestamp).toBeLessThan(5000);
+    });
+
+    it('should support custom request functions returning a response', async () => {
+      const cache = createMemoryCache({
+        [url]: { data: { greeting: 'Hello' }, timestamp: Date.now(), etag: '"v1"' },
+      });
+      const customRequest = jest
+        .fn()
+        .mockResolvedValue(createResponse(200, { greeting: 'Hi' }, { ETag: '"v2"' }));
+      const cachedLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        persistentCache: cache,
+        request: customRequest,
+      });
+      const listener = jest.fn();
+      cachedLoader.onUpdate(listener);
+
+      await cachedLoader.loadTranslations('en');
+      await flushPromises();
+
+      expect(customRequest).toHaveBeenCalledWith(
+        url,
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'If-None-Match': '"v1"' }),
+        })
+      );
+      expect(listener).toHaveBeenCalledWith('en', { greeting: 'Hi' });
+      expect(cache.entries[url].etag).toBe('"v2"');
+    });
+
+    it('should throw on 304 without a cached bundle', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(createResponse(304, null));
+
+      await expect(loader.loadTranslations('en')).rejects.toThrow('304 Not Modified');
+    });
+  });
+
+  describe('concurrent loads', () => {
+    const deferred = () => {
+      let resolve!: (value: unknown) => void;
+      const promise = new Promise((r) => {
+        resolve = r;
+      });
+      return { promise, resolve };
+    };
+
+    it('should share a single request between concurrent calls', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hello' }),
+      });
+
+      const [first, second] = await Promise.all([
+        loader.loadTranslations('en'),
+        loader.loadTranslations('en'),
+      ]);
+
+      expect(first).toEqual({ greeting: 'Hello' });
+      expect(second).toBe(first);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass an AbortSignal to the request', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({}),
+      });
+
+      await loader.loadTranslations('en');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      );
+    });
+
+    it('should reject immediately with an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(loader.loadTranslations('en', controller.signal)).rejects.toThrow(
+        'aborted'
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject only the aborted caller', async () => {
+      const response = deferred();
+      (global.fetch as jest.Mock).mockReturnValue(response.promise);
+
+      const controller = new AbortController();
+      const aborted = loader.loadTranslations('en', controller.signal);
+      const other = loader.loadTranslations('en');
+
+      controller.abort();
+      response.resolve({ ok: true, json: async () => ({ greeting: 'Hello' }) });
+
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(other).resolves.toEqual({ greeting: 'Hello' });
+    });
+
+    it('should cancel the request when every caller aborted', async () => {
+      let requestSignal: AbortSignal | undefined;
+      (global.fetch as jest.Mock).mockImplementation((_url, options) => {
+        requestSignal = options.signal;
+        return new Promise(() => undefined);
+      });
+
+      const controller = new AbortController();
+      const pending = loader.loadTranslations('en', controller.signal);
+      await Promise.resolve();
+
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(requestSignal?.aborted).toBe(true);
+      expect(loader.isCached('en')).toBe(false);
+    });
+
+    it('should reject when the request times out', async () => {
+      jest.useFakeTimers();
+      try {
+        const timeoutLoader = new ContentstorageLoader({
+          contentKey: 'test-key',
+          requestTimeout: 1000,
+        });
+        (global.fetch as jest.Mock).mockReturnValue(new Promise(() => undefined));
+
+        const pending = timeoutLoader.loadTranslations('en');
+        const assertion = expect(pending).rejects.toThrow(
+          'Loading translations for en timed out after 1000ms'
+        );
+        await jest.advanceTimersByTimeAsync(1000);
+
+        await assertion;
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should not cache a response that started before clearCache', async () => {
+      const response = deferred();
+      (global.fetch as jest.Mock).mockReturnValueOnce(response.promise);
+
+      const pending = loader.loadTranslations('en');
+      loader.clearCache('en');
+      response.resolve({ ok: true, json: async () => ({ greeting: 'Old' }) });
+
+      await expect(pending).resolves.toEqual({ greeting: 'Old' });
+      expect(loader.isCached('en')).toBe(false);
+    });
+  });
+
+  describe('retries and mirrors', () => {
+    const failure = (status: number) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+    });
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should retry retryable statuses', async () => {
+      const retryLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        retry: { attempts: 3, baseDelay: 0, jitter: 0 },
+      });
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(503))
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(success({ greeting: 'Hello' }));
+
+      const result = await retryLoader.loadTranslations('en');
+
+      expect(result).toEqual({ greeting: 'Hello' });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-retryable statuses', async () => {
+      const retryLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        retry: { attempts: 3, baseDelay: 0 },
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue(failure(404));
+
+      await expect(retryLoader.loadTranslations('en')).rejects.toThrow('404');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to mirror URLs in order', async () => {
+      const mirrorLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        mirrorUrls: ['https://mirror-1.example.com/', 'https://mirror-2.example.com/cs'],
+      });
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(500))
+        .mockResolvedValueOnce(failure(404))
+        .mockResolvedValueOnce(success({ greeting: 'Hello' }));
+
+      const result = await mirrorLoader.loadTranslations('en');
+
+      expect(result).toEqual({ greeting: 'Hello' });
+      expect((global.fetch as jest.Mock).mock.calls.map(([url]) => url)).toEqual([
+        'https://cdn.contentstorage.app/test-key/content/EN.json',
+        'https://mirror-1.example.com/test-key/content/EN.json',
+        'https://mirror-2.example.com/cs/test-key/content/EN.json',
+      ]);
+    });
+
+    it('should append relative load paths to mirror URLs', async () => {
+      const mirrorLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+        mirrorUrls: ['https://mirror.example.com'],
+      });
+
+      (global.fetch as jest.Mock)
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(success({}));
+
+      await mirrorLoader.loadTranslations('en');
+
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        'https://mirror.example.com/locales/en.json',
+        expect.any(Object)
+      );
+    });
+
+    it('should throw the last error when every URL fails', async () => {
+      const mirrorLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        mirrorUrls: ['https://mirror.example.com'],
+      });
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(failure(500))
+        .mockResolvedValueOnce(failure(502));
+
+      await expect(mirrorLoader.loadTranslations('en')).rejects.toThrow(
+        'Failed to load translations: 502'
+      );
+    });
+  });
+
+  describe('integrity', () => {
+    const textResponse = (body: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => JSON.parse(body),
+      text: async () => body,
+    });
+    // Stands in for a hash or signature check
+    const verify = jest.fn(
+      (body: string, expected: string) => expected === `len-${body.length}`
+    );
+
+    beforeEach(() => verify.mockClear());
+
+    it('should accept bundles matching the manifest', async () => {
+      const body = '{"greeting":"Hello"}';
+      const verifiedLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+        integrity: { manifest: { en: `len-${body.length}` }, verify },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(textResponse(body));
+
+      await expect(verifiedLoader.loadTranslations('en')).resolves.toEqual({
+        greeting: 'Hello',
+      });
+      expect(verify).toHaveBeenCalledWith(body, `len-${body.length}`, {
+        language: 'en',
+        url: '/locales/en.json',
+      });
+    });
+
+    it('should fail closed on mismatches and missing entries', async () => {
+      const verifiedLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+        integrity: { manifest: { en: 'len-0' }, verify },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(textResponse('{"a":"tampered"}'));
+
+      const mismatch = await verifiedLoader.loadTranslations('en').catch((e) => e);
+      const missing = await verifiedLoader.loadTranslations('de').catch((e) => e);
+
+      expect(mismatch).toBeInstanceOf(BundleIntegrityError);
+      expect(mismatch.reason).toBe('mismatch');
+      expect(missing.reason).toBe('missing-entry');
+      expect(verifiedLoader.isCached('en')).toBe(false);
+    });
+
+    it('should reload a URL manifest once when a bundle does not match', async () => {
+      const body = '{"title":"New"}';
+      const verifiedLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+        integrity: { manifest: '/locales/manifest.json', verify },
+      });
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => {
+        if (url === '/locales/manifest.json') {
+          const calls = (global.fetch as jest.Mock).mock.calls.filter(
+            ([called]) => called === url
+          ).length;
+          return textResponse(
+            JSON.stringify({ 'en:home': calls === 1 ? 'len-0' : `len-${body.length}` })
+          );
+        }
+        return textResponse(body);
+      });
+
+      await expect(verifiedLoader.loadNamespace('en', 'home')).resolves.toEqual({
+        title: 'New',
+      });
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should verify each content source against its own manifest entry', async () => {
+      const bodies: Record<string, string> = {
+        '/a/en.json': '{"title":"A"}',
+        '/b/en.json': '{"cancel":"Cancel from B"}',
+      };
+      const sourceLoader = new ContentstorageLoader({
+        contentSources: [
+          { name: 'a', loadPath: '/a/{{lng}}.json', priority: 1 },
+          { name: 'b', loadPath: '/b/{{lng}}.json' },
+        ],
+        integrity: {
+          manifest: {
+            'a:en': `len-${bodies['/a/en.json'].length}`,
+            'b:en': `len-${bodies['/b/en.json'].length}`,
+          },
+          verify,
+        },
+      });
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        textResponse(bodies[url])
+      );
+
+      await expect(sourceLoader.loadTranslations('en')).resolves.toEqual({
+        title: 'A',
+        cancel: 'Cancel from B',
+      });
+      expect(verify).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject when the manifest cannot be loaded', async () => {
+      const verifiedLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+        integrity: { manifest: () => Promise.reject(new Error('offline')), verify },
+      });
+      (global.fetch as jest.Mock).mockResolvedValue(textResponse('{}'));
+
+      await expect(verifiedLoader.loadTranslations('en')).rejects.toThrow(
+        /manifest could not be loaded \(offline\)/
+      );
+    });
+
+    it('should reject parsed data returned by a custom request', async () => {
+      const verifiedLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}.json',
+        request: jest.fn().mockResolvedValue({ greeting: 'Hello' }),
+        integrity: { manifest: { en: 'len-0' }, verify },
+      });
+
+      await expect(verifiedLoader.loadTranslations('en')).rejects.toMatchObject({
+        reason: 'missing-body',
+      });
+    });
+  });
+
+  describe('refresh', () => {
+    const success = (body: unknown, etag?: string) => ({
+      ok: true,
+      status: 200,
+      headers: { get: (name: string) => (name === 'ETag' ? etag || null : null) },
+      json: async () => body,
+    });
+
+    it('should swap in changed content and report the changed keys', async () => {
+      const contentUpdated = jest.fn();
+      const refreshLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        hooks: { contentUpdated },
+      });
+      const listener = jest.fn();
+      refreshLoader.onUpdate(listener);
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        success({ greeting: 'Hello', farewell: 'Bye' }, '"v1"')
+      );
+      await refreshLoader.loadTranslations('en');
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        success({ greeting: 'Hi', title: 'Welcome' }, '"v2"')
+      );
+      const update = await refreshLoader.refresh('en');
+
+      const expected = {
+        language: 'en',
+        changes: { added: ['title'], changed: ['greeting'], removed: ['farewell'] },
+      };
+      expect(update).toEqual(expected);
+      expect(contentUpdated).toHaveBeenCalledWith(expected);
+      expect(listener).toHaveBeenCalledWith('en', { greeting: 'Hi', title: 'Welcome' });
+      expect(await refreshLoader.loadTranslations('en')).toEqual({
+        greeting: 'Hi',
+        title: 'Welcome',
+      });
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          headers: { Accept: 'application/json', 'If-None-Match': '"v1"' },
+        })
+      );
+    });
+
+    it('should resolve to null when content is unchanged or not modified', async () => {
+      const listener = jest.fn();
+      loader.onUpdate(listener);
+      (global.fetch as jest.Mock).mockResolvedValueOnce(success({ greeting: 'Hello' }));
+      await loader.loadTranslations('en');
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce(success({ greeting: 'Hello' }));
+      await expect(loader.refresh('en')).resolves.toBeNull();
+
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ status: 304, json: jest.fn() });
+      await expect(loader.refresh('en')).resolves.toBeNull();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should skip bundles that are not cached', async () => {
+      await expect(loader.refresh('de')).resolves.toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should refresh every cached bundle and share concurrent checks', async () => {
+      const nsLoader = new ContentstorageLoader({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(success({ title: 'Checkout' }))
+        .mockResolvedValueOnce(success({ title: 'Admin' }));
+      await nsLoader.loadNamespace('en', 'checkout');
+      await nsLoader.loadNamespace('en', 'admin');
+
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(success({ title: 'Pay' }))
+        .mockRejectedValueOnce(new Error('offline'));
+      const [updates, again] = await Promise.all([
+        nsLoader.refreshAll(),
+        nsLoader.refresh('en', 'checkout'),
+      ]);
+
+      expect(updates).toEqual([
+        {
+          language: 'en',
+          namespace: 'checkout',
+          changes: { added: [], changed: ['title'], removed: [] },
+        },
+      ]);
+      expect(again).toBe(updates[0]);
+      expect(global.fetch).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('content sources', () => {
+    const ds = 'https://cdn.contentstorage.app/ds-key/content/EN.json';
+    const app = 'https://cdn.contentstorage.app/app-key/content/EN.json';
+
+    const createSourceLoader = (
+      bodies: Record<string, unknown>,
+      options: Partial<ContentstorageVueI18nOptions> = {}
+    ) =>
+      new ContentstorageLoader({
+        contentSources: [
+          { name: 'app', contentKey: 'app-key', priority: 1 },
+          { name: 'design-system', contentKey: 'ds-key' },
+          { name: 'shared', loadPath: '/shared/{{lng}}.json', prefix: 'ui.shared' },
+        ],
+        request: jest.fn(async (url: string) => {
+          const body = bodies[url];
+          if (body instanceof Error) throw body;
+          return body;
+        }),
+        ...options,
+      });
+
+    it('should deep-merge sources by priority and record key sources', async () => {
+      const sourceLoader = createSourceLoader({
+        [app]: { button: { save: 'Save changes' }, title: 'App' },
+        [ds]: { button: { save: 'Save', cancel: 'Cancel' } },
+        '/shared/en.json': { ok: 'OK' },
+      });
+
+      const result = await sourceLoader.loadTranslations('en');
+
+      expect(result).toEqual({
+        button: { save: 'Save changes', cancel: 'Cancel' },
+        title: 'App',
+        ui: { shared: { ok: 'OK' } },
+      });
+      expect(sourceLoader.getKeySource('en', 'button.save')).toBe('app');
+      expect(sourceLoader.getKeySource('en', 'button.cancel')).toBe('design-system');
+      expect(sourceLoader.getKeySource('en', 'ui.shared.ok')).toBe('shared');
+      expect(sourceLoader.getKeySource('fr', 'title')).toBeUndefined();
+    });
+
+    it('should emit load events with the source name', async () => {
+      const loadStart = jest.fn();
+      const sourceLoader = createSourceLoader(
+        { [app]: {}, [ds]: {}, '/shared/en.json': {} },
+        { hooks: { loadStart } }
+      );
+
+      await sourceLoader.loadTranslations('en');
+
+      expect(loadStart).toHaveBeenCalledTimes(3);
+      expect(loadStart).toHaveBeenCalledWith(
+        expect.objectContaining({ url: ds, source: 'design-system' })
+      );
+    });
+
+    it('should fail unless the failing source is optional', async () => {
+      const bodies = {
+        [app]: { title: 'App' },
+        [ds]: new Error('offline'),
+        '/shared/en.json': {},
+      };
+
+      await expect(createSourceLoader(bodies).loadTranslations('en')).rejects.toThrow(
+        'offline'
+      );
+
+      const optionalLoader = createSourceLoader(bodies, {
+        contentSources: [
+          { name: 'app', contentKey: 'app-key' },
+          { name: 'design-system', contentKey: 'ds-key', optional: true },
+        ],
+      });
+      await expect(optionalLoader.loadTranslations('en')).resolves.toEqual({
+        title: 'App',
+      });
+    });
+
+    it('should merge refreshed sources and report the changes', async () => {
+      const bodies: Record<string, unknown> = {
+        [app]: { title: 'App' },
+        [ds]: { button: { save: 'Save' } },
+        '/shared/en.json': {},
+      };
+      const sourceLoader = createSourceLoader(bodies);
+      const listener = jest.fn();
+      sourceLoader.onUpdate(listener);
+      await sourceLoader.loadTranslations('en');
+
+      bodies[ds] = { button: { save: 'Store' }, title: 'Design system' };
+      const update = await sourceLoader.refresh('en');
+
+      expect(update).toEqual({
+        language: 'en',
+        changes: { added: [], changed: ['button.save'], removed: [] },
+      });
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(sourceLoader.getKeySource('en', 'title')).toBe('app');
+    });
+
+    it('should clear the cache of every source', async () => {
+      const request = jest.fn(async () => ({}));
+      const sourceLoader = createSourceLoader({}, { request });
+      await sourceLoader.loadTranslations('en');
+
+      sourceLoader.clearCache('en');
+      await sourceLoader.loadTranslations('en');
+
+      expect(request).toHaveBeenCalledTimes(6);
+      expect(sourceLoader.getKeySource('en', 'title')).toBeUndefined();
+    });
+
+    it('should reject invalid source lists', () => {
+      expect(
+        () =>
+          new ContentstorageLoader({
+            contentSources: [
+              { name: 'app', contentKey: 'a' },
+              { name: 'app', contentKey: 'b' },
+            ],
+          })
+      ).toThrow('Duplicate content source name "app"');
+      expect(
+        () => new ContentstorageLoader({ contentSources: [{ name: 'app' }] })
+      ).toThrow('needs a contentKey or a loadPath');
+    });
+  });
+
+  describe('events', () => {
+    it('should emit load events', async () => {
+      const hooks = { loadStart: jest.fn(), loadSuccess: jest.fn(), cacheHit: jest.fn() };
+      const eventLoader = new ContentstorageLoader({ contentKey: 'test-key', hooks });
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hello' }),
+      });
+
+      await eventLoader.loadTranslations('en');
+      await eventLoader.loadTranslations('en');
+
+      const url = 'https://cdn.contentstorage.app/test-key/content/EN.json';
+      expect(hooks.loadStart).toHaveBeenCalledWith({
+        language: 'en',
+        url,
+        background: false,
+      });
+      expect(hooks.loadSuccess).toHaveBeenCalledWith(
+        expect.objectContaining({ language: 'en', url, notModified: false })
+      );
+      expect(hooks.cacheHit).toHaveBeenCalledWith({ language: 'en', cache: 'memory' });
+    });
+
+    it('should emit loadError on failure', async () => {
+      const loadError = jest.fn();
+      const eventLoader = new ContentstorageLoader({
+        contentKey: 'test-key',
+        hooks: { loadError },
+      });
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Server Error',
+      });
+
+      await expect(eventLoader.loadTranslations('en')).rejects.toThrow();
+
+      expect(loadError).toHaveBeenCalledWith(
+        expect.objectContaining({ language: 'en', error: expect.any(Error) })
+      );
+    });
+  });
+
   describe('createContentstorageLoader', () => {
     it('should create a loader instance', () => {
       const newLoader = createContentstorageLoader({ contentKey: 'my-key' });
@@ -0,0 +1,38 @@
+import { mapLocaleCode, normalizeLocaleCode } from '../locale';
+
+describe('locale', () => {
+  describe('normalizeLocaleCode', () => {
+    it('should normalize to BCP 47 casing', () => {
+      expect(normalizeLocaleCode('pt_br')).toBe('pt-BR');
+      expect(normalizeLocaleCode('ZH-HANT-tw')).toBe('zh-Hant-TW');
+      expect(normalizeLocaleCode('es-419')).toBe('es-419');
+      expect(normalizeLocaleCode('EN')).toBe('en');
+    });
+  });
+
+  describe('mapLocaleCode', () => {
+    it('should uppercase normalized codes by default', () => {
+      expect(mapLocaleCode('pt_br')).toBe('PT-BR');
+      expect(mapLocaleCode('en')).toBe('EN');
+    });
+
+    it('should apply the case policy', () => {
+      expect(mapLocaleCode('zh-hant', { case: 'preserve' })).toBe('zh-Hant');
+      expect(mapLocaleCode('pt-BR', { case: 'lower' })).toBe('pt-br');
+    });
+
+    it('should skip normalization when disabled', () => {
+      expect(mapLocaleCode('pt_BR', { normalize: false, case: 'preserve' })).toBe(
+        'pt_BR'
+      );
+    });
+
+    it('should prefer explicit map entries', () => {
+      const mapping = { map: { 'en-US': 'EN', 'zh-Hant': 'zh-TW' } };
+
+      expect(mapLocaleCode('en-US', mapping)).toBe('EN');
+      expect(mapLocaleCode('zh_hant', mapping)).toBe('zh-TW');
+      expect(mapLocaleCode('de', mapping)).toBe('DE');
+    });
+  });
+});
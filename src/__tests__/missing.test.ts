@@ -0,0 +1,186 @@
+import type { I18n } from 'vue-i18n';
+import {
+  ContentstorageMissingKeyCollector,
+  createContentstorageMissingKeyCollector,
+} from '../missing';
+
+describe('ContentstorageMissingKeyCollector', () => {
+  const createComposer = (existing: unknown = null) => {
+    let handler: unknown = existing;
+    return {
+      getMissingHandler: () => handler,
+      setMissingHandler: jest.fn((next: unknown) => {
+        handler = next;
+      }),
+      get handler() {
+        return handler as (locale: string, key: string) => string | void;
+      },
+    };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    global.fetch = jest.fn().mockResolvedValue({ ok: true });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should chain an existing missing handler', () => {
+    const existing = jest.fn(() => 'fallback text');
+    const composer = createComposer(existing);
+    const collector = new ContentstorageMissingKeyCollector({ missingKeys: true });
+
+    collector.attach({ global: composer } as unknown as I18n);
+
+    expect(composer.handler('fr', 'home.title')).toBe('fallback text');
+    expect(existing).toHaveBeenCalledWith('fr', 'home.title');
+    expect(collector.getPending()).toEqual([
+      expect.objectContaining({ key: 'home.title', locale: 'fr', count: 1 }),
+    ]);
+  });
+
+  it('should set the missing property in legacy mode', () => {
+    const global: { missing: unknown } = { missing: null };
+    const collector = new ContentstorageMissingKeyCollector({ missingKeys: true });
+
+    collector.attach({ global } as unknown as I18n);
+    (global.missing as (locale: string, key: string) => void)('en', 'title');
+
+    expect(collector.getPending()).toHaveLength(1);
+  });
+
+  it('should dedupe lookups per key, locale and route', () => {
+    let route = '/home';
+    const missingKey = jest.fn();
+    const collector = new ContentstorageMissingKeyCollector({
+      missingKeys: { getRoute: () => route, ignore: (key) => key.startsWith('debug.') },
+      hooks: { missingKey },
+    });
+
+    collector.record('title', 'en');
+    collector.record('title', 'en');
+    collector.record('title', 'fr');
+    route = '/about';
+    collector.record('title', 'en');
+    collector.record('debug.panel', 'en');
+
+    expect(collector.getPending()).toEqual([
+      expect.objectContaining({ key: 'title', locale: 'en', route: '/home', count: 2 }),
+      expect.objectContaining({ key: 'title', locale: 'fr', route: '/home', count: 1 }),
+      expect.objectContaining({ key: 'title', locale: 'en', route: '/about', count: 1 }),
+    ]);
+    expect(missingKey).toHaveBeenCalledTimes(3);
+    expect(missingKey).toHaveBeenCalledWith({
+      key: 'title',
+      locale: 'en',
+      route: '/home',
+    });
+  });
+
+  it('should flush to onReport after the flush interval', async () => {
+    const onReport = jest.fn();
+    const collector = new ContentstorageMissingKeyCollector({
+      missingKeys: { onReport, flushInterval: 1000 },
+    });
+
+    collector.record('title', 'en');
+    await jest.advanceTimersByTimeAsync(500);
+    collector.record('subtitle', 'en');
+    await jest.advanceTimersByTimeAsync(499);
+    expect(onReport).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onReport).toHaveBeenCalledWith([
+      expect.objectContaining({ key: 'title' }),
+      expect.objectContaining({ key: 'subtitle' }),
+    ]);
+    expect(collector.getPending()).toEqual([]);
+  });
+
+  it('should flush once the batch size is reached', () => {
+    const onReport = jest.fn();
+    const collector = new ContentstorageMissingKeyCollector({
+      missingKeys: { onReport, batchSize: 2 },
+    });
+
+    collector.record('a', 'en');
+    collector.record('a', 'en');
+    expect(onReport).not.toHaveBeenCalled();
+
+    collector.record('b', 'en');
+    expect(onReport).toHaveBeenCalledTimes(1);
+    expect(onReport.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it('should POST batches to the endpoint', async () => {
+    const missingKeysReported = jest.fn();
+    const collector = new ContentstorageMissingKeyCollector({
+      missingKeys: { endpoint: '/api/missing', headers: { 'X-App': 'web' } },
+      hooks: { missingKeysReported },
+    });
+
+    collector.record('title', 'en');
+    await collector.flush();
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/missing', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-App': 'web' },
+      body: expect.stringContaining('"key":"title"'),
+      keepalive: true,
+    });
+    expect(missingKeysReported).toHaveBeenCalledWith({
+      reports: [expect.objectContaining({ key: 'title' })],
+    });
+  });
+
+  it('should report failed batches with an event', async () => {
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: false,
+      status: 500,
+      statusText: 'Server Error',
+    });
+    const missingKeysReported = jest.fn();
+    const collector = new ContentstorageMissingKeyCollector({
+      missingKeys: { endpoint: '/api/missing' },
+      hooks: { missingKeysReported },
+    });
+
+    collector.record('title', 'en');
+    await collector.flush();
+
+    expect(missingKeysReported).toHaveBeenCalledWith({
+      reports: [expect.objectContaining({ key: 'title' })],
+      error: expect.any(Error),
+    });
+  });
+
+  it('should send pending reports with sendBeacon when the page is hidden', () => {
+    const sendBeacon = jest.fn(() => true);
+    Object.defineProperty(navigator, 'sendBeacon', {
+      value: sendBeacon,
+      configurable: true,
+    });
+    const collector = createContentstorageMissingKeyCollector({
+      missingKeys: { endpoint: '/api/missing' },
+    });
+    collector.start();
+    collector.record('title', 'en');
+
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(sendBeacon).toHaveBeenCalledWith('/api/missing', expect.any(Blob));
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(collector.getPending()).toEqual([]);
+
+    collector.stop();
+    collector.record('subtitle', 'en');
+    window.dispatchEvent(new Event('pagehide'));
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(collector.isRunning).toBe(false);
+
+    delete (navigator as { sendBeacon?: unknown }).sendBeacon;
+  });
+});
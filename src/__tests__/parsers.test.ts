@@ -0,0 +1,187 @@
+import { parsePo, parseXliff, parseYaml } from '../parsers';
+
+describe('parsers', () => {
+  describe('parseYaml', () => {
+    it('should parse nested mappings and quoted scalars', () => {
+      const yaml = [
+        '# Greetings',
+        'greeting: Hello {name}',
+        'nav:',
+        '  home: "Home \\u2192"',
+        "  about: 'It''s us'",
+        '  empty: ~',
+        'title: Welcome # trailing comment',
+      ].join('\n');
+
+      expect(parseYaml(yaml)).toEqual({
+        greeting: 'Hello {name}',
+        nav: { home: 'Home →', about: "It's us", empty: null },
+        title: 'Welcome',
+      });
+    });
+
+    it('should parse sequences of scalars and mappings', () => {
+      const yaml = [
+        'steps:',
+        '  - First',
+        '  - Second',
+        'links:',
+        '- label: Docs',
+        '  url: /docs',
+        '- label: Blog',
+      ].join('\n');
+
+      expect(parseYaml(yaml)).toEqual({
+        steps: ['First', 'Second'],
+        links: [{ label: 'Docs', url: '/docs' }, { label: 'Blog' }],
+      });
+    });
+
+    it('should parse literal and folded block scalars', () => {
+      const yaml = [
+        'literal: |',
+        '  Line one',
+        '  Line two',
+        'folded: >-',
+        '  Joined',
+        '  together',
+        '',
+        '  New paragraph',
+        'after: done',
+      ].join('\n');
+
+      expect(parseYaml(yaml)).toEqual({
+        literal: 'Line one\nLine two\n',
+        folded: 'Joined together\nNew paragraph',
+        after: 'done',
+      });
+    });
+
+    it('should return an empty object for an empty document', () => {
+      expect(parseYaml('---\n# nothing here\n')).toEqual({});
+    });
+
+    it('should report the line of malformed content', () => {
+      expect(() => parseYaml('a: 1\n  b: 2')).toThrow(/line 2/);
+      expect(() => parseYaml('a:\n\tb: 1')).toThrow(/tabs/);
+      expect(() => parseYaml('just text')).toThrow(/expected "key: value"/);
+    });
+
+    it.each([
+      ['flow sequences', 'items: [a, b]'],
+      ['flow mappings', 'nav: { home: Home }'],
+      ['anchors', 'base: &greeting Hello'],
+      ['aliases', 'copy: *greeting'],
+      ['tags', 'count: !!str 1'],
+      ['sequence items', 'items:\n  - [a, b]'],
+    ])('should reject %s as unsupported syntax', (_name, yaml) => {
+      expect(() => parseYaml(yaml)).toThrow(/unsupported syntax/);
+    });
+
+    it('should accept quoted scalars starting with reserved characters', () => {
+      expect(parseYaml('a: "[draft]"\nb: \'*new*\'')).toEqual({
+        a: '[draft]',
+        b: '*new*',
+      });
+    });
+  });
+
+  describe('parsePo', () => {
+    it('should parse entries, contexts and plurals', () => {
+      const po = [
+        'msgid ""',
+        'msgstr ""',
+        '"Language: de\\n"',
+        '',
+        '#: src/App.vue:3',
+        'msgid "greeting"',
+        'msgstr "Hallo \\"Welt\\""',
+        '',
+        'msgctxt "nav"',
+        'msgid "home"',
+        'msgstr ""',
+        '"Start"',
+        '"seite"',
+        '',
+        'msgid "items"',
+        'msgid_plural "items"',
+        'msgstr[0] "{n} Artikel"',
+        'msgstr[1] "{n} Artikel (mehrere)"',
+      ].join('\n');
+
+      expect(parsePo(po)).toEqual({
+        greeting: 'Hallo "Welt"',
+        nav: { home: 'Startseite' },
+        items: '{n} Artikel | {n} Artikel (mehrere)',
+      });
+    });
+
+    it('should skip fuzzy, obsolete and untranslated entries', () => {
+      const po = [
+        '#, fuzzy',
+        'msgid "draft"',
+        'msgstr "Entwurf"',
+        '',
+        '#~ msgid "old"',
+        '#~ msgstr "Alt"',
+        '',
+        'msgid "missing"',
+        'msgstr ""',
+        '',
+        'msgid "kept"',
+        'msgstr "Behalten"',
+      ].join('\n');
+
+      expect(parsePo(po)).toEqual({ kept: 'Behalten' });
+    });
+
+    it('should throw on unparseable lines', () => {
+      expect(() => parsePo('msgid "a"\nmsgstr "b"\nnonsense')).toThrow(/line 3/);
+    });
+  });
+
+  describe('parseXliff', () => {
+    it('should parse XLIFF 1.2 trans-units', () => {
+      const xliff = `<?xml version="1.0"?>
+<xliff version="1.2">
+  <file source-language="en" target-language="de">
+    <body>
+      <trans-unit id="1" resname="nav.home">
+        <source>Home</source>
+        <target>Startseite</target>
+      </trans-unit>
+      <trans-unit id="greeting">
+        <source>Hello</source>
+        <target><![CDATA[Hallo <b>{name}</b>]]> &amp; willkommen</target>
+      </trans-unit>
+      <trans-unit id="untranslated">
+        <source>Later</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`;
+
+      expect(parseXliff(xliff)).toEqual({
+        nav: { home: 'Startseite' },
+        greeting: 'Hallo <b>{name}</b> & willkommen',
+      });
+    });
+
+    it('should join XLIFF 2.x segments', () => {
+      const xliff = `<xliff version="2.0" srcLang="en" trgLang="fr">
+  <file id="f1">
+    <unit id="intro">
+      <segment><source>Hi.</source><target>Salut.</target></segment>
+      <segment><source> Bye.</source><target> Au revoir.</target></segment>
+    </unit>
+  </file>
+</xliff>`;
+
+      expect(parseXliff(xliff)).toEqual({ intro: 'Salut. Au revoir.' });
+    });
+
+    it('should reject documents without an xliff root', () => {
+      expect(() => parseXliff('<html></html>')).toThrow(/missing <xliff>/);
+    });
+  });
+});
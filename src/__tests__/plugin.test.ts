@@ -2,16 +2,22 @@ import { resetLiveEditorScript, getMemoryMap } from '../utils';
 
 // Mock vue-i18n
 const mockSetLocaleMessage = jest.fn();
+const mockMergeLocaleMessage = jest.fn();
 const mockGetLocaleMessage = jest.fn((locale: string) => ({}));
 const mockGetPostTranslationHandler = jest.fn(() => null);
 const mockSetPostTranslationHandler = jest.fn();
 
-const createMockI18nGlobal = (messages: Record<string, Record<string, unknown>> = {}) => {
+const createMockI18nGlobal = (
+  messages: Record<string, Record<string, unknown>> = {},
+  fallbackLocale?: unknown
+) => {
   const localeRef = { value: 'en' };
   return {
     locale: localeRef,
+    fallbackLocale,
     getLocaleMessage: (locale: string) => messages[locale] || {},
     setLocaleMessage: mockSetLocaleMessage,
+    mergeLocaleMessage: mockMergeLocaleMessage,
     getPostTranslationHandler: mockGetPostTranslationHandler,
     setPostTranslationHandler: mockSetPostTranslationHandler,
   };
@@ -21,7 +27,7 @@ jest.mock('vue-i18n', () => ({
   createI18n: jest.fn((options: any) => {
     const messages = options?.messages || {};
     return {
-      global: createMockI18nGlobal(messages),
+      global: createMockI18nGlobal(messages, options?.fallbackLocale),
       install: jest.fn(),
     };
   }),
@@ -185,6 +191,84 @@ describe('plugin', () => {
       expect(memoryMap?.has('Adios')).toBe(true);
     });
 
+    it('should update messages when persisted translations are revalidated', async () => {
+      const url = 'https://cdn.contentstorage.app/test-key/content/ES.json';
+      const persistentCache = {
+        get: jest.fn(async (key: string) =>
+          key === url ? { data: { greeting: 'Hola' }, timestamp: Date.now() } : null
+        ),
+        set: jest.fn(async () => undefined),
+        remove: jest.fn(async () => undefined),
+      };
+
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hola!' }),
+      });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        persistentCache,
+        locale: 'en',
+        messages: { en: {} },
+      });
+
+      await i18n.contentStorage.loadLanguage('es');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(mockSetLocaleMessage).toHaveBeenLastCalledWith('es', { greeting: 'Hola!' });
+    });
+
+    it('should only apply the most recent load for a language', async () => {
+      let resolveFirst!: (value: unknown) => void;
+      (global.fetch as jest.Mock)
+        .mockReturnValueOnce(
+          new Promise((resolve) => {
+            resolveFirst = resolve;
+          })
+        )
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ greeting: 'New' }) });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        locale: 'en',
+        messages: { en: {} },
+      });
+
+      const first = i18n.contentStorage.loadLanguage('es');
+      await Promise.resolve();
+      i18n.contentStorage.loader!.clearCache('es');
+      const second = i18n.contentStorage.loadLanguage('es');
+
+      await second;
+      resolveFirst({ ok: true, json: async () => ({ greeting: 'Old' }) });
+      await first;
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledTimes(1);
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', { greeting: 'New' });
+    });
+
+    it('should pass retry and mirror options to the loader', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ greeting: 'Hola' }) });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        mirrorUrls: ['https://mirror.example.com'],
+        locale: 'en',
+        messages: { en: {} },
+      });
+
+      await i18n.contentStorage.loadLanguage('es');
+
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        'https://mirror.example.com/test-key/content/ES.json',
+        expect.any(Object)
+      );
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', { greeting: 'Hola' });
+    });
+
     it('should throw if loader not available', async () => {
       const i18n = createContentstorageI18n({
         locale: 'en',
@@ -197,6 +281,634 @@ describe('plugin', () => {
     });
   });
 
+  describe('fallback chain', () => {
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should load implicit parents and fallbackLocale', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        success({ from: url })
+      );
+
+      const i18n = createContentstorageI18n({
+        loadPath: '/locales/{{lng}}.json',
+        enableCdnLoading: true,
+        locale: 'de-CH',
+        fallbackLocale: 'en',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('de-CH');
+
+      expect(result).toEqual({
+        language: 'de-CH',
+        source: 'cdn',
+        fallbacks: [
+          { language: 'de', source: 'cdn' },
+          { language: 'en', source: 'cdn' },
+        ],
+      });
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('de', {
+        from: '/locales/de.json',
+      });
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('en', {
+        from: '/locales/en.json',
+      });
+      expect(i18n.contentStorage.loadedLanguages.value).toEqual(
+        expect.arrayContaining(['de-CH', 'de', 'en'])
+      );
+    });
+
+    it('should report failed fallbacks without failing the load', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        url.includes('/en.json')
+          ? { ok: false, status: 404, statusText: 'Not Found' }
+          : success({ greeting: 'Howdy' })
+      );
+
+      const i18n = createContentstorageI18n({
+        loadPath: '/locales/{{lng}}.json',
+        enableCdnLoading: true,
+        locale: 'en-US',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('en-US');
+
+      expect(result.source).toBe('cdn');
+      expect(result.fallbacks).toEqual([{ language: 'en', error: expect.any(Error) }]);
+    });
+
+    it('should not reload fallbacks that are already loaded', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({}));
+
+      const i18n = createContentstorageI18n({
+        loadPath: '/locales/{{lng}}.json',
+        enableCdnLoading: true,
+        locale: 'en',
+      });
+
+      await i18n.contentStorage.loadLanguage('en');
+      mockSetLocaleMessage.mockClear();
+
+      const result = await i18n.contentStorage.loadLanguage('en-GB');
+
+      expect(result.fallbacks).toEqual([{ language: 'en', source: 'cdn' }]);
+      expect(mockSetLocaleMessage).toHaveBeenCalledTimes(1);
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('en-GB', {});
+    });
+  });
+
+  describe('loadNamespace', () => {
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should merge the namespace under its key prefix', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({ title: 'Checkout' }));
+
+      const i18n = createContentstorageI18n({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+        enableCdnLoading: true,
+        forceLiveMode: true,
+        locale: 'en',
+      });
+
+      await i18n.contentStorage.loadNamespace('en', 'checkout');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/locales/en/checkout.json',
+        expect.any(Object)
+      );
+      expect(mockMergeLocaleMessage).toHaveBeenCalledWith('en', {
+        checkout: { title: 'Checkout' },
+      });
+      expect(getMemoryMap()?.get('Checkout')?.metadata?.namespace).toBe('checkout');
+    });
+
+    it('should re-merge namespaces after the language is set', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) =>
+        success(url.includes('checkout') ? { title: 'Checkout' } : { greeting: 'Hello' })
+      );
+
+      const i18n = createContentstorageI18n({
+        loadPath: (lng, ns) =>
+          ns ? `/locales/${lng}/${ns}.json` : `/locales/${lng}.json`,
+        enableCdnLoading: true,
+        locale: 'en',
+      });
+
+      await i18n.contentStorage.loadNamespace('en', 'checkout');
+      mockMergeLocaleMessage.mockClear();
+
+      await i18n.contentStorage.loadLanguage('en');
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('en', { greeting: 'Hello' });
+      expect(mockMergeLocaleMessage).toHaveBeenCalledWith('en', {
+        checkout: { title: 'Checkout' },
+      });
+    });
+
+    it('should load known namespaces when switching locale', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({ title: 'Pago' }));
+
+      const i18n = createContentstorageI18n({
+        loadPath: (lng, ns) =>
+          ns ? `/locales/${lng}/${ns}.json` : `/locales/${lng}.json`,
+        enableCdnLoading: true,
+        locale: 'en',
+      });
+
+      await i18n.contentStorage.loadNamespace('en', 'checkout');
+      await i18n.contentStorage.switchLocale('es');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/locales/es/checkout.json',
+        expect.any(Object)
+      );
+      expect(mockMergeLocaleMessage).toHaveBeenCalledWith('es', {
+        checkout: { title: 'Pago' },
+      });
+    });
+
+    it('should only load namespaces when switching locale without language bundles', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({ title: 'Paiement' }));
+
+      const i18n = createContentstorageI18n({
+        loadPath: '/locales/{{lng}}/{{ns}}.json',
+        enableCdnLoading: true,
+        locale: 'en',
+      });
+
+      await i18n.contentStorage.loadNamespace('en', 'checkout');
+      await expect(i18n.contentStorage.switchLocale('fr')).resolves.toBe(true);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        '/locales/fr/checkout.json',
+        expect.any(Object)
+      );
+      expect(mockMergeLocaleMessage).toHaveBeenCalledWith('fr', {
+        checkout: { title: 'Paiement' },
+      });
+      expect((i18n.global.locale as any).value).toBe('fr');
+    });
+
+    it('should throw when CDN loading is not enabled', async () => {
+      const i18n = createContentstorageI18n({ locale: 'en' });
+
+      await expect(i18n.contentStorage.loadNamespace('en', 'checkout')).rejects.toThrow(
+        'CDN loading not enabled'
+      );
+    });
+  });
+
+  describe('switchLocale', () => {
+    const success = (body: unknown) => ({ ok: true, json: async () => body });
+
+    it('should load the language and set the locale', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({ greeting: 'Hola' }));
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        locale: 'en',
+        messages: { en: {} },
+      });
+
+      const pending = i18n.contentStorage.switchLocale('es');
+      expect(i18n.contentStorage.loading.value).toBe(true);
+
+      await expect(pending).resolves.toBe(true);
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', { greeting: 'Hola' });
+      expect((i18n.global.locale as any).value).toBe('es');
+      expect((window as any).currentLanguageCode).toBe('es');
+      expect(i18n.contentStorage.loading.value).toBe(false);
+      expect(i18n.contentStorage.error.value).toBeNull();
+      expect(i18n.contentStorage.loadedLanguages.value).toEqual(['es']);
+    });
+
+    it('should not reload an already loaded language', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(success({ greeting: 'Hola' }));
+
+      const i18n = createContentstorageI18n({ contentKey: 'test-key', locale: 'en' });
+
+      await i18n.contentStorage.switchLocale('es');
+      await i18n.contentStorage.switchLocale('es');
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should set the locale in legacy mode', async () => {
+      jest.mocked(createI18n).mockImplementationOnce(
+        () =>
+          ({
+            global: {
+              ...createMockI18nGlobal(),
+              locale: 'en',
+            },
+            install: jest.fn(),
+          }) as any
+      );
+
+      const i18n = createContentstorageI18n({ legacy: true, locale: 'en' });
+
+      await i18n.contentStorage.switchLocale('fr');
+
+      expect(i18n.global.locale).toBe('fr');
+    });
+
+    it('should expose the error of a failed switch', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      const i18n = createContentstorageI18n({ contentKey: 'test-key', locale: 'en' });
+
+      await expect(i18n.contentStorage.switchLocale('es')).rejects.toThrow('404');
+
+      expect(i18n.contentStorage.error.value?.message).toContain('404');
+      expect(i18n.contentStorage.loading.value).toBe(false);
+      expect((i18n.global.locale as any).value).toBe('en');
+    });
+
+    it('should cancel a stale switch when another one starts', async () => {
+      let resolveSpanish!: (value: unknown) => void;
+      (global.fetch as jest.Mock).mockImplementation((url: string) =>
+        url.endsWith('ES.json')
+          ? new Promise((resolve) => {
+              resolveSpanish = resolve;
+            })
+          : Promise.resolve(success({ greeting: 'Bonjour' }))
+      );
+
+      const i18n = createContentstorageI18n({ contentKey: 'test-key', locale: 'en' });
+
+      const spanish = i18n.contentStorage.switchLocale('es');
+      await Promise.resolve();
+      const french = i18n.contentStorage.switchLocale('fr');
+
+      await expect(french).resolves.toBe(true);
+      resolveSpanish(success({ greeting: 'Hola' }));
+      await expect(spanish).resolves.toBe(false);
+
+      expect((i18n.global.locale as any).value).toBe('fr');
+      expect(i18n.contentStorage.loading.value).toBe(false);
+    });
+  });
+
+  describe('bundled messages', () => {
+    const bundledMessages = {
+      es: { greeting: 'Hola (bundled)', nested: { title: 'Titulo', subtitle: 'Sub' } },
+    };
+
+    it('should seed vue-i18n with bundled messages', () => {
+      createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        locale: 'en',
+        messages: { en: { greeting: 'Hello' } },
+      });
+
+      expect(createI18n).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: { en: { greeting: 'Hello' }, es: bundledMessages.es },
+        })
+      );
+    });
+
+    it('should merge CDN messages over bundled messages', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ nested: { title: 'Titulo CDN' } }),
+      });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        forceLiveMode: true,
+        bundledMessages,
+        locale: 'en',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('es');
+
+      expect(result).toEqual({ language: 'es', source: 'merged' });
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', {
+        greeting: 'Hola (bundled)',
+        nested: { title: 'Titulo CDN', subtitle: 'Sub' },
+      });
+      expect(mockMergeLocaleMessage).not.toHaveBeenCalled();
+      expect(bundledMessages.es.nested.title).toBe('Titulo');
+      expect(i18n.contentStorage.getLanguageSource('es')).toBe('merged');
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.has('Titulo CDN')).toBe(true);
+      expect(memoryMap?.has('Sub')).toBe(true);
+    });
+
+    it('should fall back to bundled messages when the CDN fails', async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        locale: 'en',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('es');
+
+      expect(result.source).toBe('bundled');
+      expect(result.error).toBeInstanceOf(TypeError);
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', bundledMessages.es);
+    });
+
+    it('should report cdn when no bundled messages exist for the language', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Bonjour' }),
+      });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        locale: 'en',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('fr');
+
+      expect(result.source).toBe('cdn');
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('fr', { greeting: 'Bonjour' });
+    });
+
+    it('should not fetch with bundled-only strategy', async () => {
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        mergeStrategy: 'bundled-only',
+        locale: 'en',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('es');
+
+      expect(result.source).toBe('bundled');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should use bundled messages without a loader', async () => {
+      const i18n = createContentstorageI18n({
+        bundledMessages,
+        locale: 'en',
+      });
+
+      const result = await i18n.contentStorage.loadLanguage('es');
+
+      expect(result.source).toBe('bundled');
+    });
+
+    it('should ignore bundled messages with cdn-only strategy', async () => {
+      (global.fetch as jest.Mock).mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        mergeStrategy: 'cdn-only',
+        locale: 'en',
+      });
+
+      await expect(i18n.contentStorage.loadLanguage('es')).rejects.toThrow(
+        'Failed to fetch'
+      );
+      expect(mockSetLocaleMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('events', () => {
+    it('should share one emitter between tracker and loader', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hola' }),
+      });
+
+      const loadSuccess = jest.fn();
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        forceLiveMode: true,
+        hooks: { loadSuccess },
+        locale: 'en',
+      });
+      const tracked = jest.fn();
+      i18n.contentStorage.on('tracked', tracked);
+
+      await i18n.contentStorage.loadLanguage('es');
+
+      expect(loadSuccess).toHaveBeenCalledWith(
+        expect.objectContaining({ language: 'es' })
+      );
+      expect(tracked).toHaveBeenCalledWith({
+        key: 'greeting',
+        value: 'Hola',
+        language: 'es',
+      });
+      expect(i18n.contentStorage.loader?.events).toBe(i18n.contentStorage.events);
+      expect(i18n.contentStorage.tracker.events).toBe(i18n.contentStorage.events);
+    });
+
+    it('should remove handlers with off', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({}),
+      });
+
+      const i18n = createContentstorageI18n({ contentKey: 'test-key', locale: 'en' });
+      const loadStart = jest.fn();
+      i18n.contentStorage.on('loadStart', loadStart);
+      i18n.contentStorage.off('loadStart', loadStart);
+
+      await i18n.contentStorage.loadLanguage('es');
+
+      expect(loadStart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should swap refreshed content into vue-i18n', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ greeting: 'Hola' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ greeting: '¡Hola!' }) });
+
+      const contentUpdated = jest.fn();
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        hooks: { contentUpdated },
+        locale: 'en',
+      });
+      await i18n.contentStorage.loadLanguage('es');
+      mockSetLocaleMessage.mockClear();
+
+      const updates = await i18n.contentStorage.refresh();
+
+      expect(updates).toEqual([
+        { language: 'es', changes: { added: [], changed: ['greeting'], removed: [] } },
+      ]);
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', { greeting: '¡Hola!' });
+      expect(contentUpdated).toHaveBeenCalledTimes(1);
+      expect(i18n.contentStorage.refresher).toBeNull();
+    });
+
+    it('should start the refresher when the refresh option is set', () => {
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        refresh: { interval: 60000 },
+        locale: 'en',
+      });
+
+      expect(i18n.contentStorage.refresher?.isRunning).toBe(true);
+      i18n.contentStorage.refresher?.stop();
+    });
+  });
+
+  describe('missing keys', () => {
+    it('should collect keys vue-i18n cannot resolve', async () => {
+      const onReport = jest.fn();
+      const i18n = createContentstorageI18n({
+        missingKeys: { onReport },
+        locale: 'en',
+      });
+      const global = i18n.global as unknown as {
+        missing: (locale: string, key: string) => void;
+      };
+
+      global.missing('en', 'home.title');
+      await i18n.contentStorage.missingKeys?.flush();
+
+      expect(onReport).toHaveBeenCalledWith([
+        expect.objectContaining({ key: 'home.title', locale: 'en', count: 1 }),
+      ]);
+      expect(i18n.contentStorage.missingKeys?.isRunning).toBe(true);
+      i18n.contentStorage.missingKeys?.stop();
+    });
+
+    it('should not collect missing keys by default', () => {
+      const i18n = createContentstorageI18n({ locale: 'en' });
+
+      expect(i18n.contentStorage.missingKeys).toBeNull();
+      expect('missing' in i18n.global).toBe(false);
+    });
+  });
+
+  describe('build-time imports', () => {
+    it('should set and track imported bundles without fetching', async () => {
+      const i18n = createContentstorageI18n({
+        importTranslations: async () => ({ greeting: 'Built' }),
+        forceLiveMode: true,
+        locale: 'en',
+      });
+
+      await expect(i18n.contentStorage.loadLanguage('en')).resolves.toEqual({
+        language: 'en',
+        source: 'cdn',
+      });
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('en', { greeting: 'Built' });
+      expect(getMemoryMap()?.has('Built')).toBe(true);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('preview', () => {
+    it('should load drafts in live mode and reload them when the editor saves', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ greeting: 'Draft' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ greeting: 'Saved' }) });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        preview: { loadPath: '/drafts/{{lng}}.json' },
+        forceLiveMode: true,
+        locale: 'en',
+      });
+      await i18n.contentStorage.loadLanguage('en');
+
+      expect(i18n.contentStorage.loader?.inPreviewMode).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith('/drafts/en.json', expect.any(Object));
+
+      (window as any).__contentstorageSaved();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(mockSetLocaleMessage).toHaveBeenLastCalledWith('en', { greeting: 'Saved' });
+    });
+
+    it('should load published bundles outside live mode', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => ({}) });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        preview: { loadPath: '/drafts/{{lng}}.json' },
+        locale: 'en',
+      });
+      await i18n.contentStorage.loadLanguage('en');
+
+      expect(i18n.contentStorage.loader?.inPreviewMode).toBe(false);
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://cdn.contentstorage.app/test-key/content/EN.json',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('memory cache', () => {
+    it('should remove evicted non-active languages from vue-i18n', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hello' }),
+      });
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        memoryCache: { maxLanguages: 1 },
+        locale: 'en',
+      });
+      await i18n.contentStorage.loadLanguage('en');
+      await i18n.contentStorage.loadLanguage('es');
+      mockSetLocaleMessage.mockClear();
+
+      // en is active, so its messages stay even though the loader evicted it
+      expect(i18n.contentStorage.loadedLanguages.value).toEqual(['en', 'es']);
+
+      await i18n.contentStorage.loadLanguage('fr');
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('es', {});
+      expect(mockSetLocaleMessage).not.toHaveBeenCalledWith('en', {});
+      expect(i18n.contentStorage.loadedLanguages.value).toEqual(['en', 'fr']);
+      expect(i18n.contentStorage.loader?.getCachedLanguages()).toEqual(['fr']);
+    });
+  });
+
+  describe('content sources', () => {
+    it('should load merged sources and track the source of each key', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () =>
+          url.includes('ds-key') ? { save: 'Save' } : { title: 'Checkout' },
+      }));
+
+      const i18n = createContentstorageI18n({
+        contentSources: [
+          { name: 'design-system', contentKey: 'ds-key', prefix: 'ds' },
+          { name: 'app', contentKey: 'app-key' },
+        ],
+        forceLiveMode: true,
+        locale: 'en',
+      });
+      await i18n.contentStorage.loadLanguage('en');
+
+      expect(mockSetLocaleMessage).toHaveBeenCalledWith('en', {
+        ds: { save: 'Save' },
+        title: 'Checkout',
+      });
+      expect(getMemoryMap()?.get('Save')?.metadata?.source).toBe('design-system');
+      expect(getMemoryMap()?.get('Checkout')?.metadata?.source).toBe('app');
+    });
+  });
+
   describe('trackMessages', () => {
     it('should manually track messages', () => {
       const i18n = createContentstorageI18n({
@@ -0,0 +1,69 @@
+/**
+ * @jest-environment-options {"customExportConditions": ["node", "require"]}
+ */
+import { createContentstorageI18n } from '../plugin';
+
+// Runs against the real vue-i18n, which keeps the message objects it is given
+
+global.fetch = jest.fn();
+
+const respond = (body: Record<string, unknown>) => ({
+  ok: true,
+  json: async () => body,
+});
+
+describe('plugin with vue-i18n', () => {
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  describe('bundled messages', () => {
+    it('should not modify bundledMessages when merging CDN messages', async () => {
+      const bundledMessages = {
+        en: { a: 'bundled a', b: 'bundled b', nested: { title: 'Bundled title' } },
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        respond({ a: 'cdn a', c: 'cdn c', nested: { title: 'CDN title' } })
+      );
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        locale: 'en',
+      });
+      await i18n.contentStorage.loadLanguage('en');
+
+      expect(i18n.global.t('a')).toBe('cdn a');
+      expect(i18n.global.t('b')).toBe('bundled b');
+      expect(i18n.global.t('c')).toBe('cdn c');
+      expect(i18n.global.t('nested.title')).toBe('CDN title');
+      expect(bundledMessages).toEqual({
+        en: { a: 'bundled a', b: 'bundled b', nested: { title: 'Bundled title' } },
+      });
+    });
+
+    it('should drop keys removed from the CDN bundle on refresh', async () => {
+      const bundledMessages = { en: { a: 'bundled a', b: 'bundled b' } };
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(respond({ a: 'cdn a', c: 'cdn c' }))
+        .mockResolvedValueOnce(respond({ a: 'cdn a' }));
+
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        bundledMessages,
+        locale: 'en',
+        missingWarn: false,
+        fallbackWarn: false,
+      });
+      await i18n.contentStorage.loadLanguage('en');
+      await i18n.contentStorage.refresh();
+
+      expect(i18n.global.getLocaleMessage('en')).toEqual({
+        a: 'cdn a',
+        b: 'bundled b',
+      });
+      expect(i18n.global.te('c')).toBe(false);
+      expect(bundledMessages).toEqual({ en: { a: 'bundled a', b: 'bundled b' } });
+    });
+  });
+});
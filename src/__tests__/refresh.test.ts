@@ -0,0 +1,103 @@
+import { ContentstorageLoader } from '../loader';
+import { ContentstorageRefresher, createContentstorageRefresher } from '../refresh';
+import * as utils from '../utils';
+
+describe('ContentstorageRefresher', () => {
+  let loader: ContentstorageLoader;
+  let refreshAll: jest.SpyInstance;
+  let hidden: boolean;
+
+  const setHidden = (value: boolean) => {
+    hidden = value;
+    document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    hidden = false;
+    jest.spyOn(document, 'hidden', 'get').mockImplementation(() => hidden);
+    loader = new ContentstorageLoader({ contentKey: 'test-key' });
+    refreshAll = jest.spyOn(loader, 'refreshAll').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should check cached bundles at the configured interval', async () => {
+    const refresher = new ContentstorageRefresher(loader, {
+      refresh: { interval: 1000 },
+    });
+    refresher.start();
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(refreshAll).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(refreshAll).toHaveBeenCalledTimes(2);
+
+    refresher.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(refreshAll).toHaveBeenCalledTimes(2);
+    expect(refresher.isRunning).toBe(false);
+  });
+
+  it('should back off while the page is hidden', async () => {
+    const refresher = new ContentstorageRefresher(loader, {
+      refresh: { interval: 1000, hiddenBackoff: 3, maxInterval: 5000, onFocus: false },
+    });
+    refresher.start();
+    setHidden(true);
+
+    await jest.advanceTimersByTimeAsync(1000); // check 1, next in 3000
+    await jest.advanceTimersByTimeAsync(2999);
+    expect(refreshAll).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1); // check 2, next in 5000 (capped)
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(refreshAll).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(refreshAll).toHaveBeenCalledTimes(3);
+
+    // Visible again: back to the regular interval
+    setHidden(false);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(refreshAll).toHaveBeenCalledTimes(4);
+
+    refresher.stop();
+  });
+
+  it('should check on focus at most every 30 seconds', async () => {
+    const refresher = new ContentstorageRefresher(loader, { refresh: true });
+    refresher.start();
+
+    window.dispatchEvent(new Event('focus'));
+    expect(refreshAll).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(30000);
+    window.dispatchEvent(new Event('focus'));
+    window.dispatchEvent(new Event('focus'));
+    expect(refreshAll).toHaveBeenCalledTimes(1);
+
+    refresher.stop();
+  });
+
+  it('should share a check in progress', async () => {
+    const refresher = createContentstorageRefresher(loader);
+
+    const first = refresher.refresh();
+    expect(refresher.refresh()).toBe(first);
+    await first;
+    expect(refreshAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start outside the browser', () => {
+    jest.spyOn(utils, 'isBrowser').mockReturnValue(false);
+    const refresher = new ContentstorageRefresher(loader, { refresh: true });
+
+    refresher.start();
+
+    expect(refresher.isRunning).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  DEFAULT_SCRIPT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from '../retry';
+
+describe('retry', () => {
+  describe('resolveRetryPolicy', () => {
+    it('should return defaults when no policy is given', () => {
+      expect(resolveRetryPolicy(undefined)).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it('should override defaults with provided fields', () => {
+      const policy = resolveRetryPolicy({ attempts: 5, jitter: undefined });
+
+      expect(policy.attempts).toBe(5);
+      expect(policy.jitter).toBe(DEFAULT_RETRY_POLICY.jitter);
+    });
+
+    it('should use custom defaults', () => {
+      expect(resolveRetryPolicy({}, DEFAULT_SCRIPT_RETRY_POLICY).attempts).toBe(2);
+    });
+
+    it('should require at least one attempt', () => {
+      expect(resolveRetryPolicy({ attempts: 0 }).attempts).toBe(1);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially', () => {
+      const policy = resolveRetryPolicy({ baseDelay: 100, factor: 2, jitter: 0 });
+
+      expect(getRetryDelay(policy, 1)).toBe(100);
+      expect(getRetryDelay(policy, 2)).toBe(200);
+      expect(getRetryDelay(policy, 3)).toBe(400);
+    });
+
+    it('should cap the delay at maxDelay', () => {
+      const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 250, jitter: 0 });
+
+      expect(getRetryDelay(policy, 5)).toBe(250);
+    });
+
+    it('should randomize the delay with jitter', () => {
+      const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const policy = resolveRetryPolicy({ baseDelay: 1000, jitter: 1 });
+
+      expect(getRetryDelay(policy, 1)).toBe(500);
+
+      randomSpy.mockRestore();
+    });
+  });
+
+  describe('isRetryableError', () => {
+    const policy = resolveRetryPolicy(undefined);
+
+    it('should retry network errors', () => {
+      expect(isRetryableError(policy, new TypeError('Failed to fetch'))).toBe(true);
+    });
+
+    it('should retry configured statuses only', () => {
+      expect(isRetryableError(policy, { status: 503 })).toBe(true);
+      expect(isRetryableError(policy, { status: 404 })).toBe(false);
+    });
+
+    it('should not retry aborted requests', () => {
+      const error = new Error('aborted');
+      error.name = 'AbortError';
+
+      expect(isRetryableError(policy, error)).toBe(false);
+    });
+  });
+});
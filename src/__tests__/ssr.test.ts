@@ -0,0 +1,205 @@
+// Mock vue-i18n with an in-memory message store
+jest.mock('vue-i18n', () => ({
+  createI18n: jest.fn((options: any) => {
+    const messages: Record<string, Record<string, unknown>> = {
+      ...(options?.messages || {}),
+    };
+    return {
+      global: {
+        locale: { value: options?.locale || 'en' },
+        getLocaleMessage: (locale: string) => messages[locale] || {},
+        setLocaleMessage: (locale: string, message: Record<string, unknown>) => {
+          messages[locale] = message;
+        },
+        getPostTranslationHandler: () => null,
+        setPostTranslationHandler: jest.fn(),
+      },
+      install: jest.fn(),
+    };
+  }),
+}));
+
+// Import after mock
+import { createContentstorageI18n } from '../plugin';
+import {
+  loadContentstorageState,
+  serializeContentstorageState,
+  renderContentstorageStateScript,
+  getContentstorageInitialState,
+} from '../ssr';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('ssr', () => {
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+    delete (window as any).__CONTENTSTORAGE_STATE__;
+  });
+
+  describe('loadContentstorageState', () => {
+    it('should load languages and return their state', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ greeting: 'Hello' }),
+      });
+
+      const i18n = createContentstorageI18n({ contentKey: 'test-key', locale: 'en' });
+      const state = await loadContentstorageState(i18n, ['en']);
+
+      expect(state).toEqual({
+        translations: { en: { greeting: 'Hello' } },
+        sources: { en: 'cdn' },
+      });
+      expect(i18n.global.getLocaleMessage('en')).toEqual({ greeting: 'Hello' });
+    });
+
+    it('should reject if a language fails to load', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: false,
+        status: 500,
+        statusText: 'Server Error',
+      });
+
+      const i18n = createContentstorageI18n({ contentKey: 'test-key', locale: 'en' });
+
+      await expect(loadContentstorageState(i18n, ['en'])).rejects.toThrow('500');
+    });
+  });
+
+  describe('serializeContentstorageState', () => {
+    it('should escape characters that could break out of a script tag', () => {
+      const serialized = serializeContentstorageState({
+        translations: { en: { xss: '</script><script>alert(1)</script>' } },
+        sources: { en: 'cdn' },
+      });
+
+      expect(serialized).not.toContain('</script>');
+      expect(JSON.parse(serialized).translations.en.xss).toBe(
+        '</script><script>alert(1)</script>'
+      );
+    });
+
+    it('should render a script tag with nonce', () => {
+      const html = renderContentstorageStateScript(
+        { translations: {}, sources: {} },
+        'abc123'
+      );
+
+      expect(html).toBe(
+        '<script nonce="abc123">window.__CONTENTSTORAGE_STATE__={"translations":{},"sources":{}}</script>'
+      );
+    });
+  });
+
+  describe('hydration', () => {
+    it('should read the state from window', () => {
+      const state = { translations: {}, sources: {} };
+      (window as any).__CONTENTSTORAGE_STATE__ = state;
+
+      expect(getContentstorageInitialState()).toBe(state);
+    });
+
+    it('should prime the loader and messages without fetching', async () => {
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        locale: 'en',
+        preloadLanguages: ['en'],
+        initialState: {
+          translations: { en: { greeting: 'Hello' } },
+          sources: { en: 'cdn' },
+        },
+      });
+
+      expect(i18n.global.getLocaleMessage('en')).toEqual({ greeting: 'Hello' });
+      expect(i18n.contentStorage.loader?.isCached('en')).toBe(true);
+
+      await i18n.contentStorage.loadLanguage('en');
+
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should load content sources in full when refreshing hydrated bundles', async () => {
+      const bodies: Record<string, unknown> = {
+        'https://cdn.contentstorage.app/app-key/content/EN.json': { title: 'App v2' },
+        'https://cdn.contentstorage.app/ds-key/content/EN.json': { cancel: 'Cancel' },
+      };
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => bodies[url],
+      }));
+
+      const i18n = createContentstorageI18n({
+        contentSources: [
+          { name: 'app', contentKey: 'app-key', priority: 1 },
+          { name: 'design-system', contentKey: 'ds-key' },
+        ],
+        locale: 'en',
+        initialState: {
+          translations: { en: { title: 'App', cancel: 'Cancel' } },
+          sources: { en: 'cdn' },
+        },
+      });
+
+      const updates = await i18n.contentStorage.refresh();
+
+      expect(updates).toEqual([
+        { language: 'en', changes: { added: [], changed: ['title'], removed: [] } },
+      ]);
+      expect(i18n.global.getLocaleMessage('en')).toEqual({
+        title: 'App v2',
+        cancel: 'Cancel',
+      });
+      expect(i18n.contentStorage.loader?.getKeySource('en', 'cancel')).toBe(
+        'design-system'
+      );
+    });
+
+    it('should round-trip namespaces loaded on the server', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () =>
+          url.includes('checkout') ? { title: 'Checkout' } : { greeting: 'Hello' },
+      }));
+      const options = {
+        loadPath: (lng: string, ns?: string) =>
+          ns ? `/locales/${lng}/${ns}.json` : `/locales/${lng}.json`,
+        enableCdnLoading: true,
+        locale: 'en',
+      };
+
+      const server = createContentstorageI18n(options);
+      await server.contentStorage.loadNamespace('en', 'checkout');
+      const state = await loadContentstorageState(server, ['en']);
+
+      expect(state.namespaces).toEqual({ en: { checkout: { title: 'Checkout' } } });
+      (global.fetch as jest.Mock).mockClear();
+
+      const client = createContentstorageI18n({
+        ...options,
+        initialState: JSON.parse(serializeContentstorageState(state)),
+      });
+
+      expect(client.global.getLocaleMessage('en')).toEqual({
+        greeting: 'Hello',
+        checkout: { title: 'Checkout' },
+      });
+      expect(client.contentStorage.loader?.isCached('en', 'checkout')).toBe(true);
+
+      await client.contentStorage.loadNamespace('en', 'checkout');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should restore bundled sources from bundled messages', () => {
+      const i18n = createContentstorageI18n({
+        contentKey: 'test-key',
+        locale: 'en',
+        bundledMessages: { en: { greeting: 'Hello (bundled)' } },
+        initialState: { translations: {}, sources: { en: 'bundled' } },
+      });
+
+      expect(i18n.global.getLocaleMessage('en')).toEqual({ greeting: 'Hello (bundled)' });
+      expect(i18n.contentStorage.getLanguageSource('en')).toBe('bundled');
+    });
+  });
+});
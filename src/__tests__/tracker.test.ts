@@ -1,4 +1,5 @@
 import { ContentstorageTracker, createContentstorageTracker } from '../tracker';
+import * as utils from '../utils';
 import { resetLiveEditorScript, getMemoryMap, initializeMemoryMap } from '../utils';
 
 // Mock vue-i18n
@@ -35,6 +36,7 @@ describe('ContentstorageTracker', () => {
     delete win.memoryMap;
     delete win.currentLanguageCode;
     delete win.__contentstorageRefresh;
+    delete win.__contentstorageSaved;
 
     // Reset live editor script
     resetLiveEditorScript();
@@ -65,6 +67,21 @@ describe('ContentstorageTracker', () => {
 
       expect(getMemoryMap()).toBeNull();
     });
+
+    it('should be a no-op on the server', () => {
+      const isBrowserSpy = jest.spyOn(utils, 'isBrowser').mockReturnValue(false);
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n();
+
+      tracker.attach(mockI18n as any);
+      tracker.trackMessages({ greeting: 'Hello' }, 'en');
+
+      expect(tracker.inLiveMode).toBe(false);
+      expect(tracker.isAttached).toBe(false);
+      expect(getMemoryMap()).toBeNull();
+
+      isBrowserSpy.mockRestore();
+    });
   });
 
   describe('attach', () => {
@@ -165,6 +182,25 @@ describe('ContentstorageTracker', () => {
       expect(memoryMap?.has('Hello {name}!')).toBe(true);
     });
 
+    it('should track keys of registered namespaces relative to the namespace', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n({
+        en: { checkout: { title: 'Checkout' }, other: { title: 'Other' } },
+      });
+
+      tracker.attach(mockI18n as any);
+      tracker.registerNamespace('checkout');
+
+      mockI18n.global._callPostTranslation('Checkout', 'checkout.title');
+      mockI18n.global._callPostTranslation('Other', 'other.title');
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('Checkout')?.ids.has('title')).toBe(true);
+      expect(memoryMap?.get('Checkout')?.metadata?.namespace).toBe('checkout');
+      expect(memoryMap?.get('Other')?.ids.has('other.title')).toBe(true);
+      expect(memoryMap?.get('Other')?.metadata?.namespace).toBeUndefined();
+    });
+
     it('should fall back to translated value if template not found', () => {
       const tracker = new ContentstorageTracker({ forceLiveMode: true });
       const mockI18n = createMockI18n({ en: {} });
@@ -179,6 +215,362 @@ describe('ContentstorageTracker', () => {
     });
   });
 
+  describe('plural and array messages', () => {
+    const messages = {
+      en: {
+        cars: 'no cars | one car | {count} cars',
+        features: ['Fast', 'Secure'],
+      },
+    };
+
+    it('should track the rendered plural form with the full message', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+      tracker.attach(mockI18n as any);
+
+      mockI18n.global._callPostTranslation('3 cars', 'cars');
+
+      const memoryMap = getMemoryMap();
+      const entry = memoryMap?.get('{count} cars');
+      expect(entry?.ids.has('cars')).toBe(true);
+      expect(entry?.metadata?.pluralMessage).toBe(messages.en.cars);
+      expect(memoryMap?.has('one car')).toBe(false);
+      expect(memoryMap?.has(messages.en.cars)).toBe(false);
+    });
+
+    it('should prefer forms equal to the rendered text', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+      tracker.attach(mockI18n as any);
+
+      mockI18n.global._callPostTranslation('no cars', 'cars');
+
+      expect(getMemoryMap()?.has('no cars')).toBe(true);
+      expect(getMemoryMap()?.has('{count} cars')).toBe(false);
+    });
+
+    it('should track every form when the rendered text matches none', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+      tracker.attach(mockI18n as any);
+
+      mockI18n.global._callPostTranslation('VOITURES', 'cars');
+
+      expect(Array.from(getMemoryMap()?.keys() || [])).toEqual([
+        'no cars',
+        'one car',
+        '{count} cars',
+      ]);
+    });
+
+    it('should track text rendered as parts by <i18n-t>', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+      tracker.attach(mockI18n as any);
+
+      (
+        mockI18n.global._callPostTranslation as (
+          translated: unknown,
+          key: string
+        ) => unknown
+      )(['one car'], 'cars');
+
+      expect(getMemoryMap()?.get('one car')?.ids.has('cars')).toBe(true);
+    });
+
+    it('should track array items and plural forms in trackMessages', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+
+      tracker.trackMessages(messages.en, 'en');
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('Fast')?.ids.has('features.0')).toBe(true);
+      expect(memoryMap?.get('Secure')?.ids.has('features.1')).toBe(true);
+      expect(memoryMap?.get('one car')?.ids.has('cars')).toBe(true);
+      expect(memoryMap?.get('{count} cars')?.metadata?.pluralMessage).toBe(
+        messages.en.cars
+      );
+    });
+
+    it('should track array items and plural forms in preloadMessages', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+
+      tracker.preloadMessages(mockI18n.global as any);
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('Secure')?.ids.has('features.1')).toBe(true);
+      expect(memoryMap?.get('no cars')?.ids.has('cars')).toBe(true);
+    });
+  });
+
+  describe('linked messages', () => {
+    const messages = {
+      en: {
+        common: { appName: 'Acme' },
+        welcome: "Welcome to @:{'common.appName'}, {name}",
+        shout: '@.upper:common.appName rocks | @.upper:common.appName rock',
+      },
+    };
+
+    it('should track the resolved message and the linked fragments', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+      tracker.attach(mockI18n as any);
+
+      mockI18n.global._callPostTranslation('Welcome to Acme, Ada', 'welcome');
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('Welcome to Acme, {name}')?.ids.has('welcome')).toBe(true);
+      expect(memoryMap?.get('Welcome to Acme, {name}')?.metadata?.linkedKeys).toEqual([
+        'common.appName',
+      ]);
+      expect(memoryMap?.get('Acme')?.ids.has('common.appName')).toBe(true);
+      expect(memoryMap?.has(messages.en.welcome)).toBe(false);
+    });
+
+    it('should track fragments as modified and pick plural forms after resolving', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const mockI18n = createMockI18n(messages);
+      tracker.attach(mockI18n as any);
+
+      mockI18n.global._callPostTranslation('ACME rock', 'shout');
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('ACME')?.ids.has('common.appName')).toBe(true);
+      expect(memoryMap?.get('ACME rock')?.metadata?.pluralMessage).toBe(
+        messages.en.shout
+      );
+      expect(memoryMap?.has('ACME rocks')).toBe(false);
+    });
+
+    it('should record the dependency graph', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+
+      tracker.trackMessages(messages.en, 'en');
+
+      expect(tracker.getLinkedKeys('welcome')).toEqual(['common.appName']);
+      expect(tracker.getLinkingKeys('common.appName')).toEqual(['welcome', 'shout']);
+      expect(tracker.getLinkedKeys('common.appName')).toEqual([]);
+    });
+
+    it('should resolve links within namespace bundles', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+
+      tracker.trackMessages(
+        { brand: 'Acme Pay', title: 'Pay with @:checkout.brand' },
+        'en',
+        'checkout'
+      );
+
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('Pay with Acme Pay')?.ids.has('title')).toBe(true);
+      expect(memoryMap?.get('Pay with Acme Pay')?.metadata?.namespace).toBe('checkout');
+      expect(tracker.getLinkingKeys('checkout.brand')).toEqual(['checkout.title']);
+    });
+  });
+
+  describe('interpolation variables', () => {
+    const messages = { en: { greeting: 'Hello {name}!', range: '{0} to {1}' } };
+
+    /**
+     * Mock instance whose t/tc interpolate named and list values and pass the
+     * result through postTranslation, like vue-i18n
+     */
+    const createTranslatingI18n = () => {
+      const i18n = createMockI18n(messages);
+      const translate = (key: string, ...args: unknown[]) => {
+        const values = args.find((arg) => typeof arg === 'object') as
+          Record<string, unknown> | undefined;
+        const template = (messages.en as Record<string, string>)[key];
+        const translated = template.replace(/\{(\w+)\}/g, (_, name) =>
+          String(values?.[name])
+        );
+        return i18n.global._callPostTranslation(translated, key);
+      };
+      return {
+        global: { ...i18n.global, t: jest.fn(translate), tc: jest.fn(translate) },
+      };
+    };
+
+    it('should record named and list values of t() calls', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createTranslatingI18n();
+      const t = i18n.global.t;
+      tracker.attach(i18n as any);
+
+      expect(i18n.global.t('greeting', { name: 'Ada' })).toBe('Hello Ada!');
+      expect(i18n.global.t('range', [1, 5])).toBe('1 to 5');
+
+      expect(t).toHaveBeenCalledWith('greeting', { name: 'Ada' });
+      const memoryMap = getMemoryMap();
+      expect(memoryMap?.get('Hello {name}!')?.variables).toEqual({ name: 'Ada' });
+      expect(memoryMap?.get('{0} to {1}')?.variables).toEqual({ 0: 1, 1: 5 });
+    });
+
+    it('should record plural counts as count and n', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createTranslatingI18n();
+      tracker.attach(i18n as any);
+
+      i18n.global.tc('range', 2, [1, 2]);
+      expect(getMemoryMap()?.get('{0} to {1}')?.variables).toEqual({
+        0: 1,
+        1: 2,
+        count: 2,
+        n: 2,
+      });
+
+      i18n.global.t('greeting', { name: 'Ada', count: 'all' }, { plural: 3 });
+      expect(getMemoryMap()?.get('Hello {name}!')?.variables).toEqual({
+        name: 'Ada',
+        count: 'all',
+        n: 3,
+      });
+    });
+
+    it('should include the values in tracked events', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createTranslatingI18n();
+      const tracked = jest.fn();
+      tracker.events.on('tracked', tracked);
+      tracker.attach(i18n as any);
+
+      i18n.global.t('greeting', 'en', { name: 'Grace' });
+
+      expect(tracked).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'greeting', variables: { name: 'Grace' } })
+      );
+    });
+
+    it('should not record values for translations without any', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createTranslatingI18n();
+      tracker.attach(i18n as any);
+
+      i18n.global._callPostTranslation('Hello {name}!', 'greeting');
+
+      expect(getMemoryMap()?.get('Hello {name}!')?.variables).toBeUndefined();
+    });
+  });
+
+  describe('local scopes', () => {
+    const createScopedI18n = () => {
+      const i18n = createMockI18n({ en: { title: 'Global title' } });
+      const instances = new Map<unknown, unknown>();
+      return {
+        global: i18n.global,
+        __setInstance: jest.fn((component: unknown, instance: unknown) => {
+          instances.set(component, instance);
+        }),
+        __getInstance: (component: unknown) => instances.get(component) || null,
+      };
+    };
+
+    const createLocalComposer = (messages: Record<string, unknown>) => {
+      const composer = createMockI18n({ en: messages }).global;
+      const translate = (key: string, values?: Record<string, unknown>) => {
+        const template = messages[key] as string;
+        const translated = template.replace(/\{(\w+)\}/g, (_, name) =>
+          String(values?.[name])
+        );
+        return composer._callPostTranslation(translated, key);
+      };
+      return { ...composer, t: jest.fn(translate) };
+    };
+
+    it('should track translations of local composers with the component as scope', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createScopedI18n();
+      tracker.attach(i18n as any);
+
+      const component = { uid: 1, type: { name: 'ProductCard' } };
+      const composer = createLocalComposer({ price: 'Only {amount}' });
+      i18n.__setInstance(component, composer);
+
+      expect(i18n.__getInstance(component)).toBe(composer);
+      expect(composer.t('price', { amount: '5 €' })).toBe('Only 5 €');
+
+      const entry = getMemoryMap()?.get('Only {amount}');
+      expect(entry?.ids.has('price')).toBe(true);
+      expect(entry?.variables).toEqual({ amount: '5 €' });
+      expect(entry?.metadata?.scope).toBe('ProductCard');
+    });
+
+    it('should look up templates in the local messages', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createScopedI18n();
+      tracker.attach(i18n as any);
+
+      const composer = createLocalComposer({ title: 'Local {name}' });
+      i18n.__setInstance({ type: { __name: 'Header' } }, composer);
+      composer.t('title', { name: 'title' });
+
+      expect(getMemoryMap()?.get('Local {name}')?.metadata?.scope).toBe('Header');
+      expect(getMemoryMap()?.has('Global title')).toBe(false);
+    });
+
+    it('should resolve linked messages within the local scope', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createScopedI18n();
+      tracker.attach(i18n as any);
+
+      const composer = createLocalComposer({ brand: 'Acme', title: '@:brand shop' });
+      i18n.__setInstance({ type: { name: 'Shop' } }, composer);
+      composer._callPostTranslation('Acme shop', 'title');
+
+      expect(getMemoryMap()?.get('Acme shop')?.metadata).toMatchObject({
+        scope: 'Shop',
+        linkedKeys: ['brand'],
+      });
+      expect(getMemoryMap()?.get('Acme')?.metadata?.scope).toBe('Shop');
+    });
+
+    it('should keep the global scope untouched', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createScopedI18n();
+      const tracked = jest.fn();
+      tracker.events.on('tracked', tracked);
+      tracker.attach(i18n as any);
+
+      // Legacy mode registers the global instance for components without i18n options
+      i18n.__setInstance({ type: { name: 'Plain' } }, i18n.global);
+      i18n.global._callPostTranslation('Global title', 'title');
+
+      expect(getMemoryMap()?.get('Global title')?.metadata?.scope).toBeUndefined();
+      expect(tracked).toHaveBeenCalledTimes(1);
+      expect(tracked.mock.calls[0][0].scope).toBeUndefined();
+    });
+
+    it('should install on each local instance once', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createScopedI18n();
+      const tracked = jest.fn();
+      tracker.events.on('tracked', tracked);
+      tracker.attach(i18n as any);
+
+      const composer = createLocalComposer({ label: 'Save' });
+      i18n.__setInstance({ type: {} }, composer);
+      i18n.__setInstance({ type: {} }, composer);
+      composer.t('label');
+
+      expect(tracked).toHaveBeenCalledTimes(1);
+      expect(tracked).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'label', scope: 'Anonymous' })
+      );
+    });
+
+    it('should track the global scope only without an instance registry', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const i18n = createMockI18n({ en: { title: 'Global title' } });
+
+      expect(() => tracker.attach(i18n as any)).not.toThrow();
+      i18n.global._callPostTranslation('Global title', 'title');
+
+      expect(getMemoryMap()?.has('Global title')).toBe(true);
+    });
+  });
+
   describe('trackMessages', () => {
     it('should manually track messages', () => {
       const tracker = new ContentstorageTracker({ forceLiveMode: true });
@@ -217,6 +609,52 @@ describe('ContentstorageTracker', () => {
       expect(homeEntry?.ids.has('home.title')).toBe(true);
     });
 
+    it('should record the namespace in metadata', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+
+      tracker.trackMessages({ title: 'Checkout' }, 'en', 'checkout');
+
+      const entry = getMemoryMap()?.get('Checkout');
+      expect(entry?.ids.has('title')).toBe(true);
+      expect(entry?.metadata?.namespace).toBe('checkout');
+    });
+
+    it('should record the content source of each key', () => {
+      const tracked = jest.fn();
+      const tracker = new ContentstorageTracker({
+        forceLiveMode: true,
+        hooks: { tracked },
+      });
+      const resolver = jest.fn((_language: string, key: string) =>
+        key.startsWith('ds.') ? 'design-system' : undefined
+      );
+      tracker.setKeySourceResolver(resolver);
+
+      tracker.trackMessages({ ds: { save: 'Save' }, title: 'App' }, 'en');
+
+      expect(resolver).toHaveBeenCalledWith('en', 'ds.save', undefined);
+      expect(getMemoryMap()?.get('Save')?.metadata?.source).toBe('design-system');
+      expect(getMemoryMap()?.get('App')?.metadata).not.toHaveProperty('source');
+      expect(tracked).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'ds.save', source: 'design-system' })
+      );
+    });
+
+    it('should record the mapped language code', () => {
+      const tracker = new ContentstorageTracker({
+        forceLiveMode: true,
+        localeMapping: { map: { 'en-US': 'EN' } },
+      });
+      const mockI18n = createMockI18n({ 'en-US': { greeting: 'Hello' } });
+      mockI18n.global.locale.value = 'en-US';
+
+      tracker.attach(mockI18n as any);
+      tracker.trackMessages({ greeting: 'Hello' }, 'en-US');
+
+      expect(getMemoryMap()?.get('Hello')?.metadata?.language).toBe('EN');
+      expect((window as any).currentLanguageCode).toBe('EN');
+    });
+
     it('should not track when not in live mode', () => {
       const tracker = new ContentstorageTracker({ forceLiveMode: false });
 
@@ -245,6 +683,49 @@ describe('ContentstorageTracker', () => {
     });
   });
 
+  describe('events', () => {
+    it('should emit liveModeDetected from hooks', () => {
+      const liveModeDetected = jest.fn();
+
+      new ContentstorageTracker({ forceLiveMode: true, hooks: { liveModeDetected } });
+
+      expect(liveModeDetected).toHaveBeenCalled();
+    });
+
+    it('should emit tracked for each tracked translation', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const tracked = jest.fn();
+      tracker.events.on('tracked', tracked);
+
+      tracker.trackMessages({ greeting: 'Hello' }, 'en');
+
+      expect(tracked).toHaveBeenCalledWith({
+        key: 'greeting',
+        value: 'Hello',
+        language: 'en',
+      });
+    });
+
+    it('should emit memoryMapCleared on refresh', () => {
+      const tracker = new ContentstorageTracker({ forceLiveMode: true });
+      const memoryMapCleared = jest.fn();
+      tracker.events.on('memoryMapCleared', memoryMapCleared);
+
+      (window as any).__contentstorageRefresh();
+
+      expect(memoryMapCleared).toHaveBeenCalled();
+    });
+
+    it('should emit editorSaved when the live editor saves', () => {
+      const editorSaved = jest.fn();
+      new ContentstorageTracker({ forceLiveMode: true, hooks: { editorSaved } });
+
+      (window as any).__contentstorageSaved();
+
+      expect(editorSaved).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('createContentstorageTracker', () => {
     it('should create a tracker instance', () => {
       const tracker = createContentstorageTracker({ debug: true });
@@ -0,0 +1,157 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runTypegenCli } from '../cli';
+import {
+  extractMessageParams,
+  generateMessageTypes,
+  isMessageTypesUpToDate,
+} from '../typegen';
+
+describe('extractMessageParams', () => {
+  it('should return named and list params in order of first use', () => {
+    expect(extractMessageParams('{count} of {total}, {count} left')).toEqual([
+      'count',
+      'total',
+    ]);
+    expect(extractMessageParams('Hello { 0 }')).toEqual(['0']);
+  });
+
+  it('should skip literal interpolations', () => {
+    expect(extractMessageParams("user{'@'}example.com")).toEqual([]);
+    expect(extractMessageParams('No params')).toEqual([]);
+  });
+});
+
+describe('generateMessageTypes', () => {
+  const messages = {
+    home: { title: 'Hello {name}', count: '{n} items' },
+    'sign-in': 'Sign in',
+  };
+
+  it('should declare the schema, keys and params', () => {
+    const source = generateMessageTypes(messages);
+
+    expect(source).toContain('export interface ContentstorageMessages {');
+    expect(source).toContain('  home: {\n    title: string;\n    count: string;\n  };');
+    expect(source).toContain('  "sign-in": string;');
+    expect(source).toContain(
+      'export type ContentstorageMessageKey =\n  | "home.title"\n  | "home.count"\n  | "sign-in";'
+    );
+    expect(source).toContain('  "home.title": { name: string | number; };');
+    expect(source).not.toContain('"sign-in": {');
+  });
+
+  it('should augment DefineLocaleMessage by default', () => {
+    expect(generateMessageTypes(messages)).toContain(
+      "declare module 'vue-i18n' {\n  export interface DefineLocaleMessage extends ContentstorageMessages {}\n}"
+    );
+    expect(generateMessageTypes(messages, { augmentVueI18n: false })).not.toContain(
+      'declare module'
+    );
+  });
+
+  it('should use the type prefix', () => {
+    const source = generateMessageTypes(messages, { typePrefix: 'App' });
+
+    expect(source).toContain('export interface AppMessages {');
+    expect(source).toContain('export type AppMessageKey =');
+    expect(source).toContain('export interface AppMessageParams {');
+  });
+
+  it('should declare array items by index', () => {
+    const source = generateMessageTypes({ features: ['Fast', 'Secure {level}'] });
+
+    expect(source).toContain('  features: {\n    "0": string;\n    "1": string;\n  };');
+    expect(source).toContain('  | "features.0"\n  | "features.1";');
+    expect(source).toContain('  "features.1": { level: string | number; };');
+  });
+
+  it('should declare no keys for an empty bundle', () => {
+    expect(generateMessageTypes({})).toContain(
+      'export type ContentstorageMessageKey = never;'
+    );
+  });
+
+  it('should compare existing files ignoring line endings', () => {
+    const source = generateMessageTypes(messages);
+
+    expect(isMessageTypesUpToDate(messages, source.replace(/\n/g, '\r\n'))).toBe(true);
+    expect(isMessageTypesUpToDate({ ...messages, extra: 'New' }, source)).toBe(false);
+    expect(isMessageTypesUpToDate(messages, source, { typePrefix: 'App' })).toBe(false);
+  });
+});
+
+describe('runTypegenCli', () => {
+  let cwd: string;
+  const args = ['--load-path', 'locales/{{lng}}.json', '--out', 'messages.d.ts'];
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'contentstorage-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  const writeBundle = (messages: object) => {
+    mkdirSync(join(cwd, 'locales'), { recursive: true });
+    writeFileSync(join(cwd, 'locales/en.json'), JSON.stringify(messages));
+  };
+
+  it('should write the types of a bundle', async () => {
+    writeBundle({ greeting: 'Hi {name}' });
+
+    await expect(runTypegenCli(args, cwd)).resolves.toBe(0);
+    expect(readFileSync(join(cwd, 'messages.d.ts'), 'utf8')).toBe(
+      generateMessageTypes({ greeting: 'Hi {name}' })
+    );
+  });
+
+  it('should fail the check when types are missing or out of date', async () => {
+    writeBundle({ greeting: 'Hi {name}' });
+
+    await expect(runTypegenCli([...args, '--check'], cwd)).resolves.toBe(1);
+
+    await runTypegenCli(args, cwd);
+    await expect(runTypegenCli([...args, '--check'], cwd)).resolves.toBe(0);
+
+    writeBundle({ greeting: 'Hi {name}', farewell: 'Bye' });
+    await expect(runTypegenCli([...args, '--check'], cwd)).resolves.toBe(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('out of date'));
+  });
+
+  it('should load namespaces and pass generator options', async () => {
+    mkdirSync(join(cwd, 'locales/en'), { recursive: true });
+    writeFileSync(join(cwd, 'locales/en/checkout.json'), '{"pay":"Pay"}');
+
+    const code = await runTypegenCli(
+      [
+        '--load-path=locales/{{lng}}/{{ns}}.json',
+        '--namespace=checkout',
+        '--out=messages.d.ts',
+        '--type-prefix=Checkout',
+        '--no-augment',
+      ],
+      cwd
+    );
+
+    expect(code).toBe(0);
+    expect(readFileSync(join(cwd, 'messages.d.ts'), 'utf8')).toBe(
+      generateMessageTypes(
+        { pay: 'Pay' },
+        { typePrefix: 'Checkout', augmentVueI18n: false }
+      )
+    );
+  });
+
+  it('should reject invalid arguments', async () => {
+    await expect(runTypegenCli([], cwd)).resolves.toBe(1);
+    await expect(runTypegenCli(['--unknown'], cwd)).resolves.toBe(1);
+    await expect(runTypegenCli(['--out'], cwd)).resolves.toBe(1);
+    await expect(runTypegenCli(['--help'], cwd)).resolves.toBe(0);
+  });
+});
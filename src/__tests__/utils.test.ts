@@ -12,6 +12,11 @@ import {
   getCurrentLanguageCode,
   getNestedValue,
   resetLiveEditorScript,
+  loadLiveEditorScript,
+  deepMerge,
+  resolveFallbackChain,
+  diffTranslations,
+  splitPluralForms,
 } from '../utils';
 
 describe('utils', () => {
@@ -200,6 +205,36 @@ describe('utils', () => {
       expect(flattenTranslations(null)).toEqual([]);
       expect(flattenTranslations(undefined)).toEqual([]);
     });
+
+    it('should index array items', () => {
+      const obj = { features: ['Fast', 'Secure'], steps: [{ title: 'Sign up' }] };
+
+      expect(flattenTranslations(obj)).toEqual([
+        ['features.0', 'Fast'],
+        ['features.1', 'Secure'],
+        ['steps.0.title', 'Sign up'],
+      ]);
+    });
+  });
+
+  describe('splitPluralForms', () => {
+    it('should split plural messages into trimmed forms', () => {
+      expect(splitPluralForms('car | cars')).toEqual(['car', 'cars']);
+      expect(splitPluralForms('no cars | one car | {count} cars')).toEqual([
+        'no cars',
+        'one car',
+        '{count} cars',
+      ]);
+    });
+
+    it('should keep pipes inside interpolations', () => {
+      expect(splitPluralForms("a {'|'} b")).toEqual(["a {'|'} b"]);
+      expect(splitPluralForms("{'|'} one | many")).toEqual(["{'|'} one", 'many']);
+    });
+
+    it('should return other messages unchanged', () => {
+      expect(splitPluralForms(' Hello {name} ')).toEqual([' Hello {name} ']);
+    });
   });
 
   describe('normalizeKey', () => {
@@ -251,4 +286,202 @@ describe('utils', () => {
       expect(getNestedValue(undefined, 'key')).toBeUndefined();
     });
   });
+
+  describe('resolveFallbackChain', () => {
+    it('should add implicit parents of regional locales', () => {
+      expect(resolveFallbackChain('zh-Hant-TW')).toEqual(['zh-Hant', 'zh']);
+      expect(resolveFallbackChain('en')).toEqual([]);
+    });
+
+    it('should append fallbackLocale strings and arrays with their parents', () => {
+      expect(resolveFallbackChain('de-CH', 'en')).toEqual(['de', 'en']);
+      expect(resolveFallbackChain('fr-CA', ['en-GB', 'fr'])).toEqual([
+        'fr',
+        'en-GB',
+        'en',
+      ]);
+    });
+
+    it('should use the locale entry and default of a fallbackLocale map', () => {
+      const fallbackLocale = { 'de-CH': ['fr', 'it'], default: ['en'] };
+
+      expect(resolveFallbackChain('de-CH', fallbackLocale)).toEqual([
+        'de',
+        'fr',
+        'it',
+        'en',
+      ]);
+      expect(resolveFallbackChain('es', fallbackLocale)).toEqual(['en']);
+    });
+
+    it('should not include the locale itself', () => {
+      expect(resolveFallbackChain('en', 'en')).toEqual([]);
+      expect(resolveFallbackChain('en', false)).toEqual([]);
+    });
+  });
+
+  describe('deepMerge', () => {
+    it('should merge nested objects with source taking precedence', () => {
+      const target = { a: 'A', nested: { b: 'B', c: 'C' } };
+      const source = { nested: { c: 'C2', d: 'D' } };
+
+      expect(deepMerge<Record<string, unknown>>(target, source)).toEqual({
+        a: 'A',
+        nested: { b: 'B', c: 'C2', d: 'D' },
+      });
+      expect(target.nested.c).toBe('C');
+    });
+
+    it('should replace non-object values', () => {
+      expect(deepMerge<Record<string, unknown>>({ a: { b: 'B' } }, { a: 'A' })).toEqual({
+        a: 'A',
+      });
+    });
+  });
+
+  describe('diffTranslations', () => {
+    it('should report added, changed and removed keys', () => {
+      const previous = {
+        title: 'Hi',
+        nav: { home: 'Home', about: 'About' },
+        steps: ['a', 'b'],
+      };
+      const next = { title: 'Hello', nav: { home: 'Home', blog: 'Blog' }, steps: ['a'] };
+
+      expect(diffTranslations(previous, next)).toEqual({
+        added: ['nav.blog'],
+        changed: ['title'],
+        removed: ['nav.about', 'steps.1'],
+      });
+    });
+
+    it('should report no changes for equal bundles', () => {
+      expect(diffTranslations({ a: { b: 'B' } }, { a: { b: 'B' } })).toEqual({
+        added: [],
+        changed: [],
+        removed: [],
+      });
+    });
+  });
+
+  describe('loadLiveEditorScript', () => {
+    afterEach(() => {
+      document.head.querySelectorAll('script').forEach((script) => script.remove());
+      jest.useRealTimers();
+    });
+
+    it('should retry according to a retry policy', async () => {
+      jest.useFakeTimers();
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const appendSpy = jest.spyOn(document.head, 'appendChild');
+
+      const loaded = loadLiveEditorScript({ attempts: 3, baseDelay: 100, jitter: 0 });
+
+      const failLast = () => {
+        const script = appendSpy.mock.results[appendSpy.mock.results.length - 1]
+          .value as HTMLScriptElement;
+        script.onerror?.(new Event('error'));
+      };
+
+      failLast();
+      jest.advanceTimersByTime(100);
+      failLast();
+      jest.advanceTimersByTime(200);
+      failLast();
+
+      await expect(loaded).resolves.toBe(false);
+      expect(appendSpy).toHaveBeenCalledTimes(3);
+
+      appendSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    it('should set integrity, crossorigin and nonce on the script', () => {
+      loadLiveEditorScript(1, 0, false, 'https://cdn.test/editor.js', {
+        integrity: 'sha384-abc',
+        nonce: 'r4nd0m',
+      });
+
+      const script = document.head.querySelector('script') as HTMLScriptElement;
+      expect(script.src).toBe('https://cdn.test/editor.js');
+      expect(script.integrity).toBe('sha384-abc');
+      expect(script.crossOrigin).toBe('anonymous');
+      expect(script.nonce).toBe('r4nd0m');
+    });
+
+    it('should create the script URL with a Trusted Types policy', () => {
+      const createPolicy = jest.fn((_name: string, rules: any) => ({
+        createScriptURL: (url: string) => rules.createScriptURL(url),
+      }));
+      (window as any).trustedTypes = { createPolicy };
+
+      loadLiveEditorScript(1, 0, false, 'https://cdn.test/editor.js', {
+        trustedTypesPolicy: 'contentstorage-test',
+      });
+
+      expect(createPolicy).toHaveBeenCalledWith(
+        'contentstorage-test',
+        expect.any(Object)
+      );
+      const rules = createPolicy.mock.calls[0][1];
+      expect(rules.createScriptURL('https://cdn.test/editor.js')).toBe(
+        'https://cdn.test/editor.js'
+      );
+      expect(() => rules.createScriptURL('https://evil.test/x.js')).toThrow(
+        'not allowed'
+      );
+      delete (window as any).trustedTypes;
+    });
+
+    it('should resolve false when the Trusted Types policy cannot be created', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      (window as any).trustedTypes = {
+        createPolicy: jest.fn(() => {
+          throw new TypeError('Policy "contentstorage-taken" disallowed.');
+        }),
+      };
+
+      const loaded = loadLiveEditorScript(1, 0, false, 'https://cdn.test/editor.js', {
+        trustedTypesPolicy: 'contentstorage-taken',
+      });
+
+      await expect(loaded).resolves.toBe(false);
+      expect(document.head.querySelector('script')).toBeNull();
+      expect(errorSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Could not create the live editor script URL'),
+        expect.any(TypeError)
+      );
+      delete (window as any).trustedTypes;
+      errorSpy.mockRestore();
+    });
+
+    it('should resolve false when a provided policy rejects the URL', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const policy = {
+        createScriptURL: jest.fn(() => {
+          throw new TypeError('URL not allowed');
+        }),
+      };
+
+      await expect(
+        loadLiveEditorScript(1, 0, false, 'https://cdn.test/editor.js', {
+          trustedTypesPolicy: policy,
+        })
+      ).resolves.toBe(false);
+      errorSpy.mockRestore();
+    });
+
+    it('should use a provided Trusted Types policy', () => {
+      const policy = { createScriptURL: jest.fn((url: string) => `${url}#trusted`) };
+
+      loadLiveEditorScript(1, 0, false, 'https://cdn.test/editor.js', {
+        trustedTypesPolicy: policy,
+      });
+
+      expect(policy.createScriptURL).toHaveBeenCalledWith('https://cdn.test/editor.js');
+      expect((document.head.querySelector('script') as HTMLScriptElement).src).toBe(
+        'https://cdn.test/editor.js#trusted'
+      );
+    });
+  });
 });
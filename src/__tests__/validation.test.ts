@@ -0,0 +1,100 @@
+import {
+  TranslationValidationError,
+  checkMessageSyntax,
+  sanitizeMessageHtml,
+  validateTranslations,
+} from '../validation';
+
+describe('validation', () => {
+  describe('checkMessageSyntax', () => {
+    it('should accept valid messages', () => {
+      expect(checkMessageSyntax('Hello {name}!')).toBeNull();
+      expect(checkMessageSyntax("Price: {'{'}{amount}{'}'}")).toBeNull();
+      expect(
+        checkMessageSyntax('See @:common.more and @.capitalize:(app.name)')
+      ).toBeNull();
+      expect(checkMessageSyntax('Mail us at hello@example.com')).toBeNull();
+    });
+
+    it('should detect unbalanced and empty placeholders', () => {
+      expect(checkMessageSyntax('Hello {name')?.type).toBe('invalid-placeholder');
+      expect(checkMessageSyntax('Hello name}')?.type).toBe('invalid-placeholder');
+      expect(checkMessageSyntax('Hello {}')?.type).toBe('invalid-placeholder');
+      expect(checkMessageSyntax('Hello {a{b}}')?.type).toBe('invalid-placeholder');
+    });
+
+    it('should detect malformed linked messages', () => {
+      expect(checkMessageSyntax('See @: now')?.type).toBe('invalid-linked-message');
+      expect(checkMessageSyntax('See @.:key')?.type).toBe('invalid-linked-message');
+      expect(checkMessageSyntax('See @.upper key')?.type).toBe('invalid-linked-message');
+      expect(checkMessageSyntax('See @:(key')?.type).toBe('invalid-linked-message');
+    });
+  });
+
+  describe('sanitizeMessageHtml', () => {
+    it('should strip scripts, event handlers and javascript: URLs', () => {
+      expect(sanitizeMessageHtml('Hi<script>alert(1)</script>!')).toBe('Hi!');
+      expect(sanitizeMessageHtml('<img src="x.png" onerror="alert(1)">')).toBe(
+        '<img src="x.png">'
+      );
+      expect(sanitizeMessageHtml('<a href="javascript:alert(\'x\')">Go</a>')).toBe(
+        '<a href="#">Go</a>'
+      );
+      expect(sanitizeMessageHtml('<b>Bold</b>')).toBe('<b>Bold</b>');
+    });
+  });
+
+  describe('validateTranslations', () => {
+    it('should reject non-object payloads', () => {
+      for (const payload of [null, 'text', ['a'], 42]) {
+        const { issues } = validateTranslations(payload);
+        expect(issues).toEqual([
+          expect.objectContaining({ key: '', type: 'invalid-payload' }),
+        ]);
+      }
+    });
+
+    it('should report and omit offending keys', () => {
+      const { translations, issues } = validateTranslations({
+        greeting: 'Hello',
+        count: 3,
+        nested: { broken: 'Hi {name', ok: 'Fine' },
+        list: ['One', null],
+      });
+
+      expect(translations).toEqual({
+        greeting: 'Hello',
+        nested: { ok: 'Fine' },
+        list: ['One'],
+      });
+      expect(issues.map(({ key, type }) => [key, type])).toEqual([
+        ['count', 'invalid-type'],
+        ['nested.broken', 'invalid-placeholder'],
+        ['list.1', 'invalid-type'],
+      ]);
+    });
+
+    it('should sanitize HTML when enabled', () => {
+      const { translations } = validateTranslations(
+        { html: '<b onclick="x()">Hi</b>' },
+        { sanitizeHtml: true }
+      );
+
+      expect(translations).toEqual({ html: '<b>Hi</b>' });
+    });
+  });
+
+  describe('TranslationValidationError', () => {
+    it('should list the offending keys', () => {
+      const error = new TranslationValidationError('en', [
+        { key: 'a', type: 'invalid-type', message: 'Unsupported value type: number' },
+        { key: 'b.c', type: 'invalid-placeholder', message: 'Unclosed "{"' },
+      ]);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('TranslationValidationError');
+      expect(error.message).toContain('a, b.c');
+      expect(error.issues).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,5 @@
+import { runTypegenCli } from './cli';
+
+runTypegenCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,249 @@
+import { readFile, stat } from 'fs/promises';
+import { isAbsolute, join, resolve, sep } from 'path';
+import type { Plugin } from 'rollup';
+import type {
+  ContentstorageBuildPluginOptions,
+  ContentstorageVueI18nOptions,
+} from './types';
+import { ContentstorageLoader } from './loader';
+
+/**
+ * Id of the virtual module listing the inlined bundles
+ * Bundles are 'virtual:contentstorage/<language>' and
+ * 'virtual:contentstorage/<language>/<namespace>'.
+ */
+export const VIRTUAL_MODULE_ID = 'virtual:contentstorage';
+
+/**
+ * Prefix marking resolved virtual module ids, so other plugins skip them
+ */
+const RESOLVED_PREFIX = `\0${VIRTUAL_MODULE_ID}`;
+
+/**
+ * Check if a load path result is a URL rather than a file path
+ */
+function isRemoteUrl(url: string): boolean {
+  return /^[a-z][a-z\d+.-]*:\/\//i.test(url);
+}
+
+/**
+ * Get the files a load path may refer to, in the order they are tried
+ * Relative paths resolve against the root. Root-absolute paths such as
+ * '/locales/en.json' (as used at runtime) are read from where Vite serves
+ * them, the public directory, then from the root; filesystem paths outside
+ * the root are tried last, as-is.
+ */
+function getFileCandidates(path: string, root: string, publicDir: string): string[] {
+  if (!isAbsolute(path)) {
+    return [resolve(root, path)];
+  }
+  if (!path.startsWith('/') || path.startsWith(resolve(root) + sep)) {
+    return [path];
+  }
+  return [...(publicDir ? [join(publicDir, path)] : []), join(resolve(root), path), path];
+}
+
+/**
+ * Check if a file exists
+ */
+async function isFile(file: string): Promise<boolean> {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a loader request function that reads file paths from disk
+ * URLs are fetched with the given request function, or fetch().
+ *
+ * @param getRoot - Returns the directory relative paths are resolved against
+ * @param request - Optional request function for URLs
+ * @param onFile - Optional callback receiving each file read
+ * @param getPublicDir - Returns the directory root-absolute paths are served
+ *                       from (defaults to the root's public directory)
+ * @returns Request function for ContentstorageLoader
+ */
+export function createFileRequest(
+  getRoot: () => string,
+  request?: ContentstorageVueI18nOptions['request'],
+  onFile?: (file: string) => void,
+  getPublicDir: () => string = () => join(getRoot(), 'public')
+): (url: string, init: RequestInit) => Promise<unknown> {
+  return async (url, init) => {
+    if (isRemoteUrl(url)) {
+      return request ? request(url, init) : fetch(url, init);
+    }
+
+    const candidates = getFileCandidates(url, getRoot(), getPublicDir());
+    let file = candidates[0];
+    for (const candidate of candidates) {
+      if (await isFile(candidate)) {
+        file = candidate;
+        break;
+      }
+    }
+
+    onFile?.(file);
+    return readFile(file, 'utf8');
+  };
+}
+
+/**
+ * Build the source of the 'virtual:contentstorage' module
+ *
+ * @param languages - Languages to list
+ * @param namespaces - Namespaces of each language
+ * @param languageBundles - Whether to list the language bundles themselves
+ * @returns ES module source exporting languages, namespaces and importTranslations
+ */
+function renderIndexModule(
+  languages: string[],
+  namespaces: string[],
+  languageBundles: boolean
+): string {
+  const imports = languages.flatMap((language) =>
+    [
+      ...(languageBundles ? [language] : []),
+      ...namespaces.map((namespace) => `${language}/${namespace}`),
+    ].map((bundle) => {
+      const moduleId = JSON.stringify(`${VIRTUAL_MODULE_ID}/${bundle}`);
+      return `  ${JSON.stringify(bundle)}: () => import(${moduleId}),`;
+    })
+  );
+
+  return [
+    `export const languages = ${JSON.stringify(languages)};`,
+    `export const namespaces = ${JSON.stringify(namespaces)};`,
+    'const bundles = {',
+    ...imports,
+    '};',
+    'export function importTranslations(language, namespace) {',
+    "  const bundle = namespace ? language + '/' + namespace : language;",
+    '  const load = bundles[bundle];',
+    '  if (!load) {',
+    "    return Promise.reject(new Error('[ContentStorage] No build-time translations for ' + bundle));",
+    '  }',
+    '  return load().then((module) => module.default);',
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Vite/Rollup plugin inlining translations at build time
+ *
+ * Serves each bundle as a virtual module, loaded with the same rules as
+ * ContentstorageLoader (file paths in loadPath are read from disk), so
+ * production builds need no runtime fetch. Pass importTranslations from
+ * 'virtual:contentstorage' to createContentstorageI18n to lazy-import them;
+ * live editor tracking works as with fetched bundles.
+ *
+ * @example
+ * ```typescript
+ * // vite.config.ts
+ * import { createContentstorageBuildPlugin } from '@contentstorage/vue-i18n-plugin/build';
+ *
+ * export default defineConfig({
+ *   plugins: [
+ *     vue(),
+ *     createContentstorageBuildPlugin({ contentKey: 'your-key', languages: ['en', 'fr'] }),
+ *   ],
+ * });
+ *
+ * // main.ts
+ * import { importTranslations } from 'virtual:contentstorage';
+ * const i18n = createContentstorageI18n({ importTranslations, locale: 'en' });
+ * ```
+ *
+ * @param options - Build plugin options
+ * @returns Plugin for Vite or Rollup
+ * @throws Error if namespaces are listed but loadPath cannot express them,
+ *         or nothing can be inlined
+ */
+export function createContentstorageBuildPlugin(
+  options: ContentstorageBuildPluginOptions
+): Plugin & {
+  enforce: 'pre';
+  configResolved(config: { root: string; publicDir?: string }): void;
+} {
+  const { languages, namespaces = [], root, ...loaderOptions } = options;
+  let baseDir = root || process.cwd();
+  let publicDir: string | null = null;
+
+  // Local files read so far, watched in dev and watch mode
+  const files = new Set<string>();
+
+  const loader = new ContentstorageLoader({
+    ...loaderOptions,
+    request: createFileRequest(
+      () => baseDir,
+      loaderOptions.request,
+      (file) => files.add(file),
+      () => (publicDir !== null ? publicDir : join(baseDir, 'public'))
+    ),
+  });
+
+  // Every bundle the index module lists is built, so each must be loadable
+  if (namespaces.length > 0 && !loader.hasNamespaceBundles) {
+    throw new Error(
+      '[ContentStorage] Build plugin namespaces need a loadPath with a {{ns}} ' +
+        'placeholder or a loadPath function.'
+    );
+  }
+  if (namespaces.length === 0 && !loader.hasLanguageBundles) {
+    throw new Error(
+      '[ContentStorage] Build plugin loadPath contains a {{ns}} placeholder; ' +
+        'list the namespaces to inline with the namespaces option.'
+    );
+  }
+
+  return {
+    name: 'contentstorage',
+    enforce: 'pre',
+
+    configResolved(config) {
+      if (!root) {
+        baseDir = config.root;
+      }
+      // Vite resolves publicDir to an absolute path ('' when disabled)
+      if (config.publicDir !== undefined) {
+        publicDir = config.publicDir;
+      }
+    },
+
+    resolveId(id) {
+      if (id === VIRTUAL_MODULE_ID || id.startsWith(`${VIRTUAL_MODULE_ID}/`)) {
+        return `\0${id}`;
+      }
+      return null;
+    },
+
+    async load(id) {
+      if (!id.startsWith(RESOLVED_PREFIX)) {
+        return null;
+      }
+
+      const bundle = id.slice(RESOLVED_PREFIX.length + 1);
+      if (!bundle) {
+        return renderIndexModule(languages, namespaces, loader.hasLanguageBundles);
+      }
+
+      const [language, namespace] = bundle.split('/');
+      const translations = namespace
+        ? await loader.loadNamespace(language, namespace)
+        : await loader.loadTranslations(language);
+
+      files.forEach((file) => this.addWatchFile(file));
+
+      return `export default ${JSON.stringify(translations)};`;
+    },
+
+    watchChange(id) {
+      // Bundles are cheap to reload, so any changed file invalidates all of them
+      if (files.has(id)) {
+        loader.clearCache();
+      }
+    },
+  };
+}
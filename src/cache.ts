@@ -0,0 +1,181 @@
+import type { PersistedTranslations, TranslationCacheAdapter } from './types';
+import { isBrowser } from './utils';
+
+/**
+ * Default key prefix used by the built-in cache adapters
+ */
+const DEFAULT_CACHE_PREFIX = 'contentstorage:';
+
+/**
+ * localStorage-backed translation cache
+ *
+ * Stores each bundle as a JSON string under a prefixed key.
+ * Quota errors and unavailable storage (private mode, SSR) are swallowed
+ * so caching never breaks translation loading.
+ *
+ * @example
+ * ```typescript
+ * const cache = new LocalStorageCacheAdapter('my-app:');
+ * ```
+ */
+export class LocalStorageCacheAdapter implements TranslationCacheAdapter {
+  private prefix: string;
+
+  constructor(prefix: string = DEFAULT_CACHE_PREFIX) {
+    this.prefix = prefix;
+  }
+
+  async get(key: string): Promise<PersistedTranslations | null> {
+    const storage = this.getStorage();
+    if (!storage) return null;
+
+    try {
+      const raw = storage.getItem(this.prefix + key);
+      return raw ? (JSON.parse(raw) as PersistedTranslations) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  async set(key: string, entry: PersistedTranslations): Promise<void> {
+    const storage = this.getStorage();
+    if (!storage) return;
+
+    try {
+      storage.setItem(this.prefix + key, JSON.stringify(entry));
+    } catch (e) {
+      // Quota exceeded or storage disabled - caching is best effort
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    const storage = this.getStorage();
+    if (!storage) return;
+
+    try {
+      storage.removeItem(this.prefix + key);
+    } catch (e) {
+      // Ignore storage errors
+    }
+  }
+
+  /**
+   * Get localStorage if it is accessible
+   */
+  private getStorage(): Storage | null {
+    if (!isBrowser()) return null;
+    try {
+      return window.localStorage || null;
+    } catch (e) {
+      // Accessing localStorage can throw when cookies are blocked
+      return null;
+    }
+  }
+}
+
+/**
+ * IndexedDB-backed translation cache
+ *
+ * Better suited than localStorage for large bundles, as IndexedDB
+ * has a much higher quota and stores objects without string serialization.
+ *
+ * @example
+ * ```typescript
+ * const cache = new IndexedDBCacheAdapter('my-app-translations');
+ * ```
+ */
+export class IndexedDBCacheAdapter implements TranslationCacheAdapter {
+  private dbName: string;
+  private storeName: string;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  constructor(dbName: string = 'contentstorage', storeName: string = 'translations') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  async get(key: string): Promise<PersistedTranslations | null> {
+    const result = await this.run<PersistedTranslations | undefined>(
+      'readonly',
+      (store) => store.get(key)
+    );
+    return result || null;
+  }
+
+  async set(key: string, entry: PersistedTranslations): Promise<void> {
+    await this.run('readwrite', (store) => store.put(entry, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  /**
+   * Run a single request against the object store
+   * Resolves to undefined if IndexedDB is unavailable or the request fails
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    return new Promise<T | undefined>((resolve) => {
+      try {
+        const transaction = db.transaction(this.storeName, mode);
+        const request = operation(transaction.objectStore(this.storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => resolve(undefined);
+      } catch (e) {
+        resolve(undefined);
+      }
+    });
+  }
+
+  /**
+   * Open (and lazily create) the database
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (!isBrowser() || typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+      } catch (e) {
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Resolve the persistentCache option to an adapter instance
+ *
+ * @param cache - Adapter instance or name of a built-in adapter
+ * @returns Cache adapter, or null if persistent caching is disabled
+ */
+export function resolveCacheAdapter(
+  cache: TranslationCacheAdapter | 'localStorage' | 'indexedDB' | undefined
+): TranslationCacheAdapter | null {
+  if (!cache) return null;
+  if (cache === 'localStorage') return new LocalStorageCacheAdapter();
+  if (cache === 'indexedDB') return new IndexedDBCacheAdapter();
+  return cache;
+}
@@ -0,0 +1,156 @@
+import { readFile, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import type { MessageTypesOptions } from './types';
+import { createFileRequest } from './build';
+import { ContentstorageLoader } from './loader';
+import { generateMessageTypes, isMessageTypesUpToDate } from './typegen';
+
+const USAGE = `Usage: contentstorage-typegen [options]
+
+Generate a .d.ts declaring the message keys of a Contentstorage bundle.
+
+Options:
+  --content-key <key>    ContentStorage content key
+  --load-path <path>     Load path or URL with {{lng}} and {{ns}} placeholders
+  --language <code>      Language of the bundle (default: en)
+  --namespace <name>     Namespace of the bundle
+  --out <file>           Output file (default: contentstorage-messages.d.ts)
+  --type-prefix <name>   Prefix of the generated type names (default: Contentstorage)
+  --no-augment           Do not augment vue-i18n's DefineLocaleMessage
+  --check                Fail if the output file is missing or out of date
+  --help                 Show this message`;
+
+/**
+ * Parsed command line of contentstorage-typegen
+ */
+interface TypegenArgs extends MessageTypesOptions {
+  contentKey?: string;
+  loadPath?: string;
+  language: string;
+  namespace?: string;
+  out: string;
+  check: boolean;
+  help: boolean;
+}
+
+/**
+ * Options taking a value, by flag
+ */
+const VALUE_FLAGS: Record<string, keyof TypegenArgs> = {
+  '--content-key': 'contentKey',
+  '--load-path': 'loadPath',
+  '--language': 'language',
+  '--namespace': 'namespace',
+  '--out': 'out',
+  '--type-prefix': 'typePrefix',
+};
+
+/**
+ * Parse command line arguments
+ *
+ * @throws Error on unknown flags or missing values
+ */
+function parseArgs(argv: string[]): TypegenArgs {
+  const args: TypegenArgs = {
+    language: 'en',
+    out: 'contentstorage-messages.d.ts',
+    check: false,
+    help: false,
+  };
+  const values = args as unknown as Record<string, unknown>;
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+
+    if (flag === '--check') {
+      args.check = true;
+    } else if (flag === '--no-augment') {
+      args.augmentVueI18n = false;
+    } else if (flag === '--help' || flag === '-h') {
+      args.help = true;
+    } else if (flag in VALUE_FLAGS) {
+      const value = inline !== undefined ? inline : argv[++i];
+      if (!value) {
+        throw new Error(`${flag} needs a value`);
+      }
+      values[VALUE_FLAGS[flag]] = value;
+    } else {
+      throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Run the contentstorage-typegen command
+ *
+ * Loads a bundle with ContentstorageLoader (file paths in --load-path are read
+ * from disk) and writes its message types to --out. With --check nothing is
+ * written; the command fails if the file differs from what would be generated,
+ * so CI catches types that were not regenerated after content changes.
+ *
+ * @param argv - Command line arguments, without the node and script paths
+ * @param cwd - Directory relative paths are resolved against
+ * @returns Exit code
+ */
+export async function runTypegenCli(
+  argv: string[],
+  cwd: string = process.cwd()
+): Promise<number> {
+  let args: TypegenArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    console.error(`[ContentStorage] ${(error as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (!args.contentKey && !args.loadPath) {
+    console.error(
+      `[ContentStorage] --content-key or --load-path is required\n\n${USAGE}`
+    );
+    return 1;
+  }
+
+  const { typePrefix, augmentVueI18n } = args;
+  const out = resolve(cwd, args.out);
+  const loader = new ContentstorageLoader({
+    contentKey: args.contentKey,
+    loadPath: args.loadPath,
+    request: createFileRequest(() => cwd),
+  });
+
+  try {
+    const messages = args.namespace
+      ? await loader.loadNamespace(args.language, args.namespace)
+      : await loader.loadTranslations(args.language);
+
+    if (args.check) {
+      const existing = await readFile(out, 'utf8').catch(() => null);
+      if (
+        existing === null ||
+        !isMessageTypesUpToDate(messages, existing, { typePrefix, augmentVueI18n })
+      ) {
+        console.error(
+          `[ContentStorage] ${args.out} is out of date. Run contentstorage-typegen without --check to update it.`
+        );
+        return 1;
+      }
+      console.log(`[ContentStorage] ${args.out} is up to date`);
+      return 0;
+    }
+
+    await writeFile(out, generateMessageTypes(messages, { typePrefix, augmentVueI18n }));
+    console.log(`[ContentStorage] Wrote message types to ${args.out}`);
+    return 0;
+  } catch (error) {
+    console.error('[ContentStorage] Failed to generate message types:', error);
+    return 1;
+  }
+}
@@ -0,0 +1,103 @@
+import type {
+  ContentstorageEventHandler,
+  ContentstorageEventHooks,
+  ContentstorageEventMap,
+  ContentstorageEventName,
+} from './types';
+
+/**
+ * Typed event emitter for loader and tracker lifecycle events
+ *
+ * Handler errors are caught and logged so observers can never break
+ * translation loading or tracking.
+ *
+ * @example
+ * ```typescript
+ * const events = new ContentstorageEventEmitter({
+ *   loadError: ({ language, error }) => reportError(error, { language }),
+ * });
+ * events.on('loadSuccess', ({ language, duration }) => metrics.timing(language, duration));
+ * ```
+ */
+export class ContentstorageEventEmitter {
+  private handlers: {
+    [K in ContentstorageEventName]?: Set<ContentstorageEventHandler<K>>;
+  } = {};
+
+  constructor(hooks: ContentstorageEventHooks = {}) {
+    for (const event of Object.keys(hooks) as ContentstorageEventName[]) {
+      const handler = hooks[event];
+      if (handler) {
+        this.on(event, handler as ContentstorageEventHandler<typeof event>);
+      }
+    }
+  }
+
+  /**
+   * Register an event handler
+   *
+   * @param event - Event name
+   * @param handler - Handler called with the event payload
+   * @returns Function that removes the handler
+   */
+  on<K extends ContentstorageEventName>(
+    event: K,
+    handler: ContentstorageEventHandler<K>
+  ): () => void {
+    let set = this.handlers[event] as Set<ContentstorageEventHandler<K>> | undefined;
+    if (!set) {
+      set = new Set();
+      (this.handlers as Record<string, Set<unknown>>)[event] = set;
+    }
+    set.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Remove an event handler
+   *
+   * @param event - Event name
+   * @param handler - Handler previously passed to on()
+   */
+  off<K extends ContentstorageEventName>(
+    event: K,
+    handler: ContentstorageEventHandler<K>
+  ): void {
+    (this.handlers[event] as Set<ContentstorageEventHandler<K>> | undefined)?.delete(
+      handler
+    );
+  }
+
+  /**
+   * Check if an event has any handlers
+   * Lets callers skip building payloads nobody listens to.
+   *
+   * @param event - Event name
+   */
+  has(event: ContentstorageEventName): boolean {
+    return !!this.handlers[event]?.size;
+  }
+
+  /**
+   * Call all handlers of an event
+   *
+   * @param event - Event name
+   * @param payload - Event payload
+   */
+  emit<K extends ContentstorageEventName>(
+    event: K,
+    payload: ContentstorageEventMap[K]
+  ): void {
+    const set = this.handlers[event] as Set<ContentstorageEventHandler<K>> | undefined;
+    if (!set) return;
+
+    set.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[ContentStorage] Error in ${event} event handler:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import type { TranslationFormat } from './types';
+import { parsePo, parseXliff, parseYaml } from './parsers';
+
+/**
+ * JSON bundles (the default format)
+ */
+export const jsonFormat: TranslationFormat = {
+  name: 'json',
+  extensions: ['json'],
+  contentTypes: ['application/json', 'text/json'],
+  parse: (body) => JSON.parse(body),
+};
+
+/**
+ * YAML bundles
+ */
+export const yamlFormat: TranslationFormat = {
+  name: 'yaml',
+  extensions: ['yaml', 'yml'],
+  contentTypes: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'],
+  parse: parseYaml,
+};
+
+/**
+ * gettext PO files
+ */
+export const poFormat: TranslationFormat = {
+  name: 'po',
+  extensions: ['po'],
+  contentTypes: ['text/x-gettext-translation', 'application/x-po', 'text/x-po'],
+  parse: parsePo,
+};
+
+/**
+ * XLIFF 1.2 and 2.x files
+ */
+export const xliffFormat: TranslationFormat = {
+  name: 'xliff',
+  extensions: ['xlf', 'xliff'],
+  contentTypes: ['application/xliff+xml', 'application/x-xliff+xml'],
+  parse: parseXliff,
+};
+
+/**
+ * Built-in formats, in lookup order
+ */
+export const DEFAULT_FORMATS: TranslationFormat[] = [
+  jsonFormat,
+  yamlFormat,
+  poFormat,
+  xliffFormat,
+];
+
+/**
+ * Pick the format of a bundle
+ * The Content-Type wins over the URL's file extension; generic types such as
+ * text/plain fall through to the extension. Defaults to JSON.
+ *
+ * @param formats - Formats to choose from, in priority order
+ * @param url - URL the bundle is loaded from
+ * @param contentType - Response Content-Type header, if any
+ * @returns Matching format
+ */
+export function resolveFormat(
+  formats: TranslationFormat[],
+  url: string,
+  contentType?: string | null
+): TranslationFormat {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType) {
+    const byType = formats.find((format) => format.contentTypes.includes(mimeType));
+    if (byType) return byType;
+  }
+
+  const path = url.split(/[?#]/)[0];
+  const extension = path.includes('.')
+    ? path.slice(path.lastIndexOf('.') + 1).toLowerCase()
+    : '';
+  if (extension && !extension.includes('/')) {
+    const byExtension = formats.find((format) => format.extensions.includes(extension));
+    if (byExtension) return byExtension;
+  }
+
+  return formats.find((format) => format.name === 'json') || jsonFormat;
+}
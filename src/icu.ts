@@ -0,0 +1,272 @@
+import type { TranslationData, TranslationTransformer } from './types';
+
+type IcuNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; name: string }
+  | { type: 'pound' }
+  | { type: 'plural'; options: Record<string, IcuNode[]> };
+
+/**
+ * Raised while converting a message that has no vue-i18n equivalent
+ */
+class UnsupportedIcuMessage extends Error {}
+
+/**
+ * Parse an ICU MessageFormat string into nodes
+ */
+function parseIcu(message: string): IcuNode[] {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new UnsupportedIcuMessage(reason);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+
+  const readWord = (): string => {
+    skipWhitespace();
+    const start = pos;
+    while (pos < message.length && !/[\s,{}]/.test(message[pos])) pos++;
+    return message.slice(start, pos);
+  };
+
+  const expect = (char: string) => {
+    skipWhitespace();
+    if (message[pos] !== char) fail(`expected "${char}" at ${pos}`);
+    pos++;
+  };
+
+  /** Skip a format style such as "::currency/EUR" up to the closing brace */
+  const skipStyle = () => {
+    let depth = 0;
+    while (pos < message.length) {
+      const char = message[pos];
+      if (char === '{') depth++;
+      if (char === '}') {
+        if (depth === 0) return;
+        depth--;
+      }
+      pos++;
+    }
+    fail('unterminated argument');
+  };
+
+  const parseArgument = (inPlural: boolean): IcuNode => {
+    const name = readWord();
+    if (!name) fail(`missing argument name at ${pos}`);
+    skipWhitespace();
+
+    if (message[pos] === '}') {
+      pos++;
+      return { type: 'argument', name };
+    }
+
+    expect(',');
+    const type = readWord();
+
+    if (type === 'plural' || type === 'selectordinal') {
+      if (inPlural) fail('nested plurals are not supported');
+      expect(',');
+      const options: Record<string, IcuNode[]> = {};
+
+      for (;;) {
+        skipWhitespace();
+        if (message[pos] === '}') {
+          pos++;
+          break;
+        }
+
+        const selector = readWord();
+        if (!selector) fail(`missing plural selector at ${pos}`);
+        // The offset shifts "#", which vue-i18n cannot express
+        if (selector.startsWith('offset:')) fail('plural offsets are not supported');
+
+        expect('{');
+        options[selector] = parseNodes(true);
+        expect('}');
+      }
+
+      if (!options.other) fail('plural without "other"');
+      return { type: 'plural', options };
+    }
+
+    if (type === 'select') {
+      fail('select arguments are not supported');
+    }
+
+    // number, date, time and other formatted arguments keep only the value
+    skipStyle();
+    pos++;
+    return { type: 'argument', name };
+  };
+
+  function parseNodes(inPlural: boolean): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = '';
+
+    const flushText = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (pos < message.length) {
+      const char = message[pos];
+
+      if (char === "'") {
+        const next = message[pos + 1];
+        if (next === "'") {
+          text += "'";
+          pos += 2;
+        } else if (
+          next === '{' ||
+          next === '}' ||
+          next === '|' ||
+          (inPlural && next === '#')
+        ) {
+          // Quoted literal text runs to the next single apostrophe
+          pos++;
+          for (;;) {
+            if (pos >= message.length) break;
+            if (message[pos] === "'") {
+              if (message[pos + 1] === "'") {
+                text += "'";
+                pos += 2;
+                continue;
+              }
+              pos++;
+              break;
+            }
+            text += message[pos++];
+          }
+        } else {
+          text += char;
+          pos++;
+        }
+        continue;
+      }
+
+      if (char === '{') {
+        flushText();
+        pos++;
+        nodes.push(parseArgument(inPlural));
+        continue;
+      }
+
+      if (char === '}') {
+        if (inPlural) break;
+        fail(`unexpected "}" at ${pos}`);
+      }
+
+      if (char === '#' && inPlural) {
+        flushText();
+        nodes.push({ type: 'pound' });
+        pos++;
+        continue;
+      }
+
+      text += char;
+      pos++;
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  const nodes = parseNodes(false);
+  if (pos < message.length) fail(`unexpected "${message[pos]}" at ${pos}`);
+  return nodes;
+}
+
+/**
+ * Escape characters with a meaning in vue-i18n message syntax as literals
+ */
+function escapeText(text: string): string {
+  return text.replace(/[{}@|]/g, (char) => `{'${char}'}`);
+}
+
+/**
+ * Render nodes as vue-i18n message alternatives (one per plural form)
+ */
+function renderNodes(nodes: IcuNode[]): string[] {
+  let alternatives = [''];
+
+  for (const node of nodes) {
+    if (node.type === 'plural') {
+      if (alternatives.length > 1) {
+        throw new UnsupportedIcuMessage('only one plural per message is supported');
+      }
+
+      const { options } = node;
+      const render = (branch: IcuNode[]) => renderNodes(branch)[0];
+      const other = render(options.other);
+      const oneBranch = options['=1'] || options.one;
+      const zeroBranch = options['=0'] || options.zero;
+      const one = oneBranch ? render(oneBranch) : other;
+
+      const forms = zeroBranch ? [render(zeroBranch), one, other] : [one, other];
+      alternatives = forms.map((form) => alternatives[0] + form);
+      continue;
+    }
+
+    const text =
+      node.type === 'text'
+        ? escapeText(node.value)
+        : node.type === 'pound'
+          ? '{n}'
+          : `{${node.name}}`;
+    alternatives = alternatives.map((alternative) => alternative + text);
+  }
+
+  return alternatives;
+}
+
+/**
+ * Convert an ICU MessageFormat message to vue-i18n message syntax
+ *
+ * Plurals become pipe-separated forms ("zero | one | other" when a =0/zero
+ * branch exists, otherwise "one | other") and `#` becomes `{n}`. Formatted
+ * arguments such as `{price, number}` keep only the placeholder, and quoted
+ * or reserved characters become literal interpolations (`{'@'}`).
+ *
+ * Messages using select, nested plurals or plural offsets cannot be expressed
+ * in vue-i18n and are returned unchanged.
+ *
+ * @param message - ICU message
+ * @returns vue-i18n message
+ */
+export function convertIcuMessage(message: string): string {
+  try {
+    return renderNodes(parseIcu(message)).join(' | ');
+  } catch (e) {
+    if (e instanceof UnsupportedIcuMessage) {
+      return message;
+    }
+    throw e;
+  }
+}
+
+function convertValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return convertIcuMessage(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(convertValue);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = convertValue(child);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Transformer converting every message in a bundle from ICU to vue-i18n syntax
+ * Used automatically when `messageSyntax: 'icu'` is set.
+ */
+export const icuTransformer: TranslationTransformer = (translations) =>
+  convertValue(translations) as TranslationData;
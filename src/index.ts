@@ -14,10 +14,96 @@ export {
 } from './plugin';
 
 // Tracker exports
-export { ContentstorageTracker, createContentstorageTracker } from './tracker';
+export {
+  ContentstorageTracker,
+  createContentstorageTracker,
+  type KeySourceResolver,
+} from './tracker';
 
 // Loader exports
-export { ContentstorageLoader, createContentstorageLoader } from './loader';
+export {
+  ContentstorageLoader,
+  createContentstorageLoader,
+  type TranslationUpdateListener,
+} from './loader';
+
+// SSR exports
+export {
+  loadContentstorageState,
+  serializeContentstorageState,
+  renderContentstorageStateScript,
+  getContentstorageInitialState,
+  CONTENTSTORAGE_STATE_KEY,
+} from './ssr';
+
+// Refresh exports
+export {
+  ContentstorageRefresher,
+  createContentstorageRefresher,
+  DEFAULT_REFRESH_OPTIONS,
+} from './refresh';
+
+// Missing key exports
+export {
+  ContentstorageMissingKeyCollector,
+  createContentstorageMissingKeyCollector,
+} from './missing';
+
+// Content source exports
+export {
+  mergeSourceBundles,
+  type SourceBundle,
+  type MergedSourceBundles,
+} from './sources';
+
+// Type generation exports
+export {
+  generateMessageTypes,
+  extractMessageParams,
+  isMessageTypesUpToDate,
+} from './typegen';
+
+// Events exports
+export { ContentstorageEventEmitter } from './events';
+
+// Validation exports
+export {
+  TranslationValidationError,
+  validateTranslations,
+  checkMessageSyntax,
+  sanitizeMessageHtml,
+  type TranslationValidationResult,
+} from './validation';
+
+// Integrity exports
+export { BundleIntegrityError, computeIntegrity, verifyIntegrity } from './integrity';
+
+// Linked message exports
+export {
+  parseLinkedReferences,
+  resolveLinkedMessage,
+  type LinkedReference,
+  type LinkedFragment,
+  type ResolvedLinkedMessage,
+} from './linked';
+
+// Locale exports
+export { normalizeLocaleCode, mapLocaleCode } from './locale';
+
+// Format exports
+export {
+  jsonFormat,
+  yamlFormat,
+  poFormat,
+  xliffFormat,
+  DEFAULT_FORMATS,
+  resolveFormat,
+} from './formats';
+export { parseYaml, parsePo, parseXliff } from './parsers';
+export { convertIcuMessage, icuTransformer } from './icu';
+
+// Cache exports
+export { LocalStorageCacheAdapter, IndexedDBCacheAdapter } from './cache';
 
 // Utility exports
 export {
@@ -30,8 +116,12 @@ export {
   getMemoryMap,
   trackTranslation,
   flattenTranslations,
+  splitPluralForms,
   cleanupMemoryMap,
   getNestedValue,
+  deepMerge,
+  resolveFallbackChain,
+  diffTranslations,
 } from './utils';
 
 // Type exports
@@ -42,4 +132,46 @@ export type {
   MemoryMapEntry,
   ContentstorageWindow,
   TranslationData,
+  TranslationCacheAdapter,
+  PersistedTranslations,
+  TranslationResponse,
+  BundleValidators,
+  RetryPolicy,
+  MessageMergeStrategy,
+  TranslationSource,
+  ContentSource,
+  PreviewOptions,
+  ContentstorageBuildPluginOptions,
+  MessageTypesOptions,
+  LanguageLoadResult,
+  FallbackLoadResult,
+  FallbackLocaleConfig,
+  LocaleMapping,
+  LocaleCase,
+  TranslationValidationOptions,
+  TranslationValidationIssue,
+  TranslationIssueType,
+  TranslationFormat,
+  TranslationTransformer,
+  TranslationTransformContext,
+  MessageSyntax,
+  RefreshOptions,
+  MissingKeyOptions,
+  MissingKeyReport,
+  MemoryCacheOptions,
+  CacheEntryInfo,
+  CacheEntrySource,
+  CacheEvictionReason,
+  BundleIntegrityOptions,
+  BundleIntegrityManifest,
+  BundleIntegrityFailure,
+  LiveEditorScriptOptions,
+  TrustedTypesPolicyLike,
+  TranslationDiff,
+  TranslationUpdate,
+  ContentstorageState,
+  ContentstorageEventMap,
+  ContentstorageEventName,
+  ContentstorageEventHandler,
+  ContentstorageEventHooks,
 } from './types';
@@ -0,0 +1,110 @@
+import type { BundleIntegrityFailure } from './types';
+
+/**
+ * Hash algorithm prefix of an SRI-style hash
+ */
+type IntegrityAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+/**
+ * Web Crypto names of the accepted hash algorithms, by prefix
+ */
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+const FAILURE_MESSAGES: Record<BundleIntegrityFailure, string> = {
+  'manifest-unavailable': 'integrity manifest could not be loaded',
+  'missing-entry': 'no manifest entry',
+  'missing-body': 'raw response body unavailable',
+  mismatch: 'content does not match the manifest',
+};
+
+/**
+ * Error thrown when a fetched bundle fails integrity verification
+ *
+ * @example
+ * ```typescript
+ * loader.events.on('loadError', ({ error }) => {
+ *   if (error instanceof BundleIntegrityError) {
+ *     reportTampering(error.bundle, error.reason);
+ *   }
+ * });
+ * ```
+ */
+export class BundleIntegrityError extends Error {
+  /** Bundle that failed verification (language, or language:namespace) */
+  readonly bundle: string;
+  /** URL the bundle was loaded from */
+  readonly url: string;
+  /** Why verification failed */
+  readonly reason: BundleIntegrityFailure;
+
+  constructor(
+    bundle: string,
+    url: string,
+    reason: BundleIntegrityFailure,
+    cause?: unknown
+  ) {
+    super(
+      `[ContentStorage] Integrity check failed for ${bundle} (${url}): ${FAILURE_MESSAGES[reason]}` +
+        (cause instanceof Error ? ` (${cause.message})` : '')
+    );
+    this.name = 'BundleIntegrityError';
+    this.bundle = bundle;
+    this.url = url;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Compute an SRI-style hash of a text body
+ *
+ * @param body - Text to hash (hashed as UTF-8)
+ * @param algorithm - 'sha256', 'sha384' or 'sha512'
+ * @returns Hash such as 'sha256-<base64>'
+ * @throws Error if the algorithm is unsupported or Web Crypto is unavailable
+ */
+export async function computeIntegrity(
+  body: string,
+  algorithm: IntegrityAlgorithm = 'sha256'
+): Promise<string> {
+  const name = HASH_ALGORITHMS[algorithm];
+  if (!name) {
+    throw new Error(`[ContentStorage] Unsupported hash algorithm: ${algorithm}`);
+  }
+
+  const subtle = typeof crypto !== 'undefined' ? crypto.subtle : undefined;
+  if (!subtle) {
+    throw new Error('[ContentStorage] Web Crypto API is not available to verify bundles');
+  }
+
+  const digest = new Uint8Array(
+    await subtle.digest(name, new TextEncoder().encode(body))
+  );
+  return `${algorithm}-${btoa(String.fromCharCode(...Array.from(digest)))}`;
+}
+
+/**
+ * Check a text body against SRI-style hashes
+ * Matches if any of the space-separated hashes matches; unknown algorithms
+ * are ignored, so an entry without a supported hash never matches.
+ *
+ * @param body - Text to check
+ * @param expected - Hashes, e.g. 'sha256-abc= sha384-def='
+ * @returns true if the body matches
+ */
+export async function verifyIntegrity(body: string, expected: string): Promise<boolean> {
+  for (const hash of expected.trim().split(/\s+/)) {
+    const algorithm = hash.slice(0, hash.indexOf('-'));
+    if (!HASH_ALGORITHMS[algorithm]) continue;
+
+    const actual = await computeIntegrity(body, algorithm as IntegrityAlgorithm);
+    // Ignore SRI options such as "?ct=application/json"
+    if (actual === hash.split('?')[0]) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,174 @@
+/**
+ * A linked message reference such as @:common.appName or @.upper:{'brand'}
+ */
+export interface LinkedReference {
+  /** Reference as written in the message */
+  source: string;
+  /** Linked key, or the name of the interpolation holding it if named is true */
+  key: string;
+  /** Modifier such as 'upper' */
+  modifier?: string;
+  /** Whether the key comes from an interpolation value (@:{name}) */
+  named?: boolean;
+}
+
+/**
+ * A linked message as rendered within another message
+ */
+export interface LinkedFragment {
+  /** Linked key */
+  key: string;
+  /** Key of the message containing the reference, if known */
+  parent?: string;
+  /** Modifier applied to the message */
+  modifier?: string;
+  /** Linked message with its own references resolved and the modifier applied */
+  message: string;
+}
+
+/**
+ * Result of resolving the linked references of a message
+ */
+export interface ResolvedLinkedMessage {
+  /** Message with resolvable references replaced by the messages they link to */
+  message: string;
+  /** Linked messages in order of resolution (a parent before its children) */
+  fragments: LinkedFragment[];
+}
+
+/**
+ * Linked references: @, an optional .modifier, :, then a {placeholder} key or
+ * the characters up to whitespace or one of { } % @ | ( ), as vue-i18n reads them
+ */
+const LINKED_PATTERN =
+  /@(?:\.([A-Za-z0-9_$]+))?:(?:\{\s*(?:'([^']*)'|([A-Za-z0-9_$-]+))\s*\}|([^\s{}%@|()]+))/g;
+
+/**
+ * Placeholders, which modifiers leave untouched
+ */
+const PLACEHOLDER_PATTERN = /(\{[^{}]*\})/;
+
+/**
+ * Modifiers vue-i18n applies by default
+ */
+const BUILT_IN_MODIFIERS: Record<string, (value: string) => string> = {
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  capitalize: (value) => value.charAt(0).toUpperCase() + value.slice(1),
+};
+
+/**
+ * Maximum depth of nested linked messages, guarding against cycles
+ */
+const MAX_LINK_DEPTH = 10;
+
+/**
+ * Find the linked references in a message
+ *
+ * @example parseLinkedReferences("@.upper:brand - @:{'home.title'}")
+ * // [{ source: '@.upper:brand', key: 'brand', modifier: 'upper' }, { source: "@:{'home.title'}", key: 'home.title' }]
+ *
+ * @param message - vue-i18n message
+ * @returns References in order of appearance
+ */
+export function parseLinkedReferences(message: string): LinkedReference[] {
+  const references: LinkedReference[] = [];
+  const pattern = new RegExp(LINKED_PATTERN.source, 'g');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(message)) !== null) {
+    const [source, modifier, literal, named, plain] = match;
+    references.push({
+      source,
+      key: named !== undefined ? named : literal !== undefined ? literal : plain,
+      ...(modifier && { modifier }),
+      ...(named !== undefined && { named: true }),
+    });
+  }
+
+  return references;
+}
+
+/**
+ * Apply a modifier to the text of a message, leaving placeholders untouched
+ * Unknown (custom) modifiers leave the message unchanged.
+ */
+function applyModifier(message: string, modifier?: string): string {
+  const modify = modifier ? BUILT_IN_MODIFIERS[modifier] : undefined;
+  if (!modify) {
+    return message;
+  }
+  if (modifier === 'capitalize') {
+    return message.startsWith('{') ? message : modify(message);
+  }
+  return message
+    .split(PLACEHOLDER_PATTERN)
+    .map((part) => (PLACEHOLDER_PATTERN.test(part) ? part : modify(part)))
+    .join('');
+}
+
+/**
+ * Replace the linked references of a message with the messages they link to
+ *
+ * References are resolved recursively, and the upper, lower and capitalize
+ * modifiers applied, so the result reads like the rendered text with its own
+ * {placeholders} kept. References that cannot be resolved (unknown keys,
+ * cycles, named keys without a value) are left as written.
+ *
+ * @param message - vue-i18n message
+ * @param lookup - Returns the message for a key
+ * @param values - Interpolation values, for @:{name} references
+ * @param key - Key of the message, recorded as parent of its references and
+ *              used to detect links back to it
+ * @returns Resolved message and the linked messages it contains
+ */
+export function resolveLinkedMessage(
+  message: string,
+  lookup: (key: string) => unknown,
+  values?: Record<string, unknown>,
+  key?: string
+): ResolvedLinkedMessage {
+  const fragments: LinkedFragment[] = [];
+
+  const resolve = (text: string, parent: string | undefined, path: string[]): string => {
+    if (path.length > MAX_LINK_DEPTH) {
+      return text;
+    }
+
+    let resolved = '';
+    let lastIndex = 0;
+    for (const reference of parseLinkedReferences(text)) {
+      const index = text.indexOf(reference.source, lastIndex);
+      resolved += text.slice(lastIndex, index);
+      lastIndex = index + reference.source.length;
+
+      const linkedKey = reference.named ? values?.[reference.key] : reference.key;
+      const linked = typeof linkedKey === 'string' ? lookup(linkedKey) : undefined;
+      if (
+        typeof linkedKey !== 'string' ||
+        typeof linked !== 'string' ||
+        path.includes(linkedKey)
+      ) {
+        resolved += reference.source;
+        continue;
+      }
+
+      const fragment: LinkedFragment = {
+        key: linkedKey,
+        ...(parent !== undefined && { parent }),
+        ...(reference.modifier && { modifier: reference.modifier }),
+        message: '',
+      };
+      fragments.push(fragment);
+      fragment.message = applyModifier(
+        resolve(linked, linkedKey, [...path, linkedKey]),
+        reference.modifier
+      );
+      resolved += fragment.message;
+    }
+
+    return resolved + text.slice(lastIndex);
+  };
+
+  return { message: resolve(message, key, key ? [key] : []), fragments };
+}
@@ -1,60 +1,599 @@
-import type { ContentstorageVueI18nOptions, TranslationData } from './types';
+import type {
+  BundleIntegrityManifest,
+  BundleValidators,
+  CacheEntryInfo,
+  CacheEntrySource,
+  CacheEvictionReason,
+  ContentSource,
+  ContentstorageVueI18nOptions,
+  PersistedTranslations,
+  TranslationCacheAdapter,
+  TranslationData,
+  TranslationFormat,
+  TranslationResponse,
+  TranslationTransformContext,
+  TranslationTransformer,
+  TranslationUpdate,
+} from './types';
+import { resolveCacheAdapter } from './cache';
+import { ContentstorageEventEmitter } from './events';
+import { DEFAULT_FORMATS, resolveFormat } from './formats';
+import { icuTransformer } from './icu';
+import { BundleIntegrityError, verifyIntegrity } from './integrity';
+import { mapLocaleCode } from './locale';
+import { mergeSourceBundles, sortContentSources, type SourceBundle } from './sources';
+import { TranslationValidationError, validateTranslations } from './validation';
+import { diffTranslations, flattenTranslations, isPlainObject } from './utils';
+import {
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+  wait,
+  type ResolvedRetryPolicy,
+} from './retry';
+
+/**
+ * Default maximum age of persistently cached bundles (7 days)
+ */
+const DEFAULT_PERSISTENT_CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Listener called when background revalidation finds newer translations
+ * namespace is set when the updated bundle is a namespace bundle.
+ */
+export type TranslationUpdateListener = (
+  language: string,
+  translations: TranslationData,
+  namespace?: string
+) => void;
+
+/**
+ * Result of a network request for a bundle
+ * data is null when the server answered 304 Not Modified
+ */
+interface FetchResult extends BundleValidators {
+  data: TranslationData | null;
+  /** Raw response body, when it was read as text */
+  body?: string;
+}
+
+/**
+ * A load shared by all concurrent callers for the same language
+ */
+interface InFlightLoad {
+  promise: Promise<TranslationData>;
+  controller: AbortController;
+  /** Number of callers still waiting for the result */
+  waiters: number;
+}
+
+/**
+ * Bookkeeping for a bundle in the in-memory cache
+ */
+interface CachedBundle {
+  source: CacheEntrySource;
+  cachedAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * A content source and the loader fetching its bundles
+ */
+interface SourceLoader {
+  source: ContentSource;
+  loader: ContentstorageLoader;
+}
+
+/**
+ * Loader events re-emitted for content sources
+ */
+const SOURCE_EVENTS = [
+  'loadStart',
+  'loadSuccess',
+  'loadError',
+  'cacheHit',
+  'validationIssues',
+] as const;
+
+/**
+ * Build the key identifying a bundle in caches and in-flight loads
+ * Language bundles use the language code, namespace bundles "language:namespace".
+ */
+function getBundleKey(language: string, namespace?: string): string {
+  return namespace ? `${language}:${namespace}` : language;
+}
+
+/**
+ * Split a bundle key into language and namespace
+ */
+function parseBundleKey(key: string): { language: string; namespace?: string } {
+  const separator = key.indexOf(':');
+  if (separator === -1) {
+    return { language: key };
+  }
+  return { language: key.slice(0, separator), namespace: key.slice(separator + 1) };
+}
+
+/**
+ * Create the error used to reject aborted loads
+ */
+function createAbortError(key: string): Error {
+  const error = new Error(`[ContentStorage] Loading translations for ${key} aborted`);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Check if a value returned by a request function is a fetch-like response
+ */
+function isResponseLike(value: unknown): value is TranslationResponse {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as TranslationResponse).status === 'number' &&
+    typeof (value as TranslationResponse).json === 'function'
+  );
+}
 
 /**
  * ContentStorage CDN Translation Loader
  *
- * Loads translations from the ContentStorage CDN or a custom source.
- * Supports caching to avoid redundant requests.
+ * Loads translations from the ContentStorage CDN or a custom source, either
+ * as one bundle per language or split into namespaces loaded on demand.
+ * Supports in-memory caching to avoid redundant requests, and an optional
+ * persistent cache that serves the last known bundle instantly while
+ * revalidating it in the background. ETag/Last-Modified validators are
+ * remembered per language so revalidation uses cheap conditional requests.
  *
  * @example
  * ```typescript
  * const loader = new ContentstorageLoader({ contentKey: 'your-key' });
  * const translations = await loader.loadTranslations('en');
+ *
+ * const namespaced = new ContentstorageLoader({ loadPath: '/locales/{{lng}}/{{ns}}.json' });
+ * const checkout = await namespaced.loadNamespace('en', 'checkout');
  * ```
  */
 export class ContentstorageLoader {
   private options: ContentstorageVueI18nOptions;
   private cache: Map<string, TranslationData> = new Map();
+  private cacheInfo: Map<string, CachedBundle> = new Map();
+  /** Cached languages, least recently used first */
+  private recentLanguages: Set<string> = new Set();
+  private persistentCache: TranslationCacheAdapter | null;
+  private updateListeners: Set<TranslationUpdateListener> = new Set();
+  private validators: Map<string, BundleValidators> = new Map();
+  private inFlight: Map<string, InFlightLoad> = new Map();
+  private generations: Map<string, number> = new Map();
+  private refreshing: Map<string, Promise<TranslationUpdate | null>> = new Map();
+  private integrityManifest: Promise<BundleIntegrityManifest> | null = null;
+  /** Prefix of this loader's manifest keys ('<source>:' for content sources) */
+  private integrityKeyPrefix: string = '';
+  private retryPolicy: ResolvedRetryPolicy;
+  private formats: TranslationFormat[];
+  private transformers: TranslationTransformer[];
+  private sourceLoaders: SourceLoader[];
+  private keySources: Map<string, Map<string, string>> = new Map();
+  private previewMode: boolean = false;
+
+  /**
+   * Lifecycle event emitter (loadStart, loadSuccess, loadError, cacheHit)
+   */
+  readonly events: ContentstorageEventEmitter;
 
-  constructor(options: ContentstorageVueI18nOptions) {
+  /**
+   * @param options - Loader configuration options
+   * @param events - Optional emitter shared with other components
+   *                 (defaults to a new emitter with options.hooks)
+   */
+  constructor(
+    options: ContentstorageVueI18nOptions,
+    events?: ContentstorageEventEmitter
+  ) {
     this.options = options;
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    this.events = events || new ContentstorageEventEmitter(options.hooks);
+    this.formats = [...(options.formats || []), ...DEFAULT_FORMATS];
+    this.transformers = [
+      ...(options.messageSyntax === 'icu' ? [icuTransformer] : []),
+      ...(options.transformers || []),
+    ];
+    this.sourceLoaders = options.contentSources?.length
+      ? sortContentSources(options.contentSources).map((source) =>
+          this.createSourceLoader(source)
+        )
+      : [];
+    // With several sources, each source loader persists its own bundles
+    this.persistentCache = this.sourceLoaders.length
+      ? null
+      : resolveCacheAdapter(options.persistentCache);
+  }
+
+  /**
+   * Create the loader fetching a content source's bundles
+   * It shares every option except where bundles are loaded from, and its load
+   * events are re-emitted with the source name. Updates it finds through
+   * background revalidation are merged into this loader's bundles.
+   *
+   * @param source - Content source
+   * @returns The source and its loader
+   */
+  private createSourceLoader(source: ContentSource): SourceLoader {
+    const events = new ContentstorageEventEmitter();
+    const loader = new ContentstorageLoader(
+      {
+        ...this.options,
+        contentSources: undefined,
+        // Expiry and eviction are decided for the merged bundles
+        memoryCache: undefined,
+        contentKey: source.contentKey,
+        loadPath: source.loadPath,
+        preview: source.preview,
+      },
+      events
+    );
+    // Sources serve different content for the same bundle, so each has its own entries
+    loader.integrityKeyPrefix = `${source.name}:`;
+
+    for (const event of SOURCE_EVENTS) {
+      events.on(event, (payload) =>
+        this.events.emit(event, { ...payload, source: source.name })
+      );
+    }
+
+    loader.onUpdate((language, _translations, namespace) => {
+      // refresh() merges the bundle itself once every source has been checked
+      if (!this.refreshing.has(getBundleKey(language, namespace))) {
+        this.mergeSources(language, namespace);
+      }
+    });
+
+    return { source, loader };
+  }
+
+  /**
+   * Whether draft bundles are loaded (see setPreviewMode())
+   */
+  get inPreviewMode(): boolean {
+    return this.previewMode;
+  }
+
+  /**
+   * Whether whole-language bundles can be loaded
+   * False when loadPath has a {{ns}} placeholder, so only namespaces exist.
+   */
+  get hasLanguageBundles(): boolean {
+    if (this.isImported()) {
+      return true;
+    }
+    if (this.sourceLoaders.length) {
+      return this.sourceLoaders.every(({ loader }) => loader.hasLanguageBundles);
+    }
+    const loadPath = this.getActiveLoadPath();
+    return !(typeof loadPath === 'string' && loadPath.includes('{{ns}}'));
+  }
+
+  /**
+   * Whether namespace bundles can be loaded
+   * Needs a loadPath with a {{ns}} placeholder or a loadPath function; the
+   * default CDN path has no namespaces.
+   */
+  get hasNamespaceBundles(): boolean {
+    if (this.isImported()) {
+      return true;
+    }
+    if (this.sourceLoaders.length) {
+      return this.sourceLoaders.every(({ loader }) => loader.hasNamespaceBundles);
+    }
+    const loadPath = this.getActiveLoadPath();
+    return (
+      typeof loadPath === 'function' ||
+      (typeof loadPath === 'string' && loadPath.includes('{{ns}}'))
+    );
+  }
+
+  /**
+   * Get the loadPath bundles currently load from (preview.loadPath in preview mode)
+   */
+  private getActiveLoadPath(): ContentstorageVueI18nOptions['loadPath'] {
+    return this.previewMode && this.options.preview
+      ? this.options.preview.loadPath
+      : this.options.loadPath;
+  }
+
+  /**
+   * Switch between draft and published bundles
+   * In preview mode, bundles load from preview.loadPath with preview.headers,
+   * skip the persistent cache and integrity checks (drafts aren't in the
+   * manifest). Switching drops the in-memory cache, so bundles reload from
+   * the new source on next use.
+   *
+   * @param enabled - Whether to load draft bundles
+   * @throws Error if enabling without preview options
+   */
+  setPreviewMode(enabled: boolean): void {
+    if (enabled === this.previewMode) return;
+
+    const previewSources = this.sourceLoaders.filter(
+      ({ loader }) => loader.options.preview
+    );
+    if (enabled && !this.options.preview && previewSources.length === 0) {
+      throw new Error('[ContentStorage] Preview mode requires the preview option');
+    }
+
+    this.previewMode = enabled;
+    previewSources.forEach(({ loader }) => loader.setPreviewMode(enabled));
+
+    Array.from(this.cache.keys())
+      .concat(Array.from(this.inFlight.keys()))
+      .forEach((key) => {
+        this.inFlight.delete(key);
+        this.generations.set(key, (this.generations.get(key) || 0) + 1);
+        this.dropBundle(key);
+      });
+
+    if (this.options.debug) {
+      console.log(
+        `[ContentStorage] ${enabled ? 'Loading draft' : 'Loading published'} translations`
+      );
+    }
+  }
+
+  /**
+   * Register a file format
+   * Registered formats take precedence over configured and built-in ones.
+   *
+   * @param format - Format to register
+   */
+  registerFormat(format: TranslationFormat): void {
+    this.formats.unshift(format);
+  }
+
+  /**
+   * Register a transformer applied to bundles after the configured ones
+   * Bundles already cached are not transformed again.
+   *
+   * @param transformer - Transformer to register
+   */
+  registerTransformer(transformer: TranslationTransformer): void {
+    this.transformers.push(transformer);
   }
 
   /**
    * Load translations for a specific language from CDN
    *
+   * Concurrent calls for the same language share a single request.
+   * Aborting a caller's signal rejects only that caller; the request itself
+   * is cancelled once every waiting caller has aborted.
+   *
+   * @param language - Language code (e.g., 'en', 'es', 'fr')
+   * @param signal - Optional AbortSignal to cancel waiting for the result
+   * @returns Promise resolving to translation data
+   * @throws Error if loading fails, times out or is aborted
+   */
+  async loadTranslations(
+    language: string,
+    signal?: AbortSignal
+  ): Promise<TranslationData> {
+    return this.loadBundle(language, undefined, signal);
+  }
+
+  /**
+   * Load a namespace bundle for a specific language
+   * The URL comes from loadPath with {{ns}} replaced by the namespace.
+   * Caching, deduplication and abort handling work as in loadTranslations().
+   *
    * @param language - Language code (e.g., 'en', 'es', 'fr')
+   * @param namespace - Namespace to load (e.g., 'checkout', 'admin')
+   * @param signal - Optional AbortSignal to cancel waiting for the result
+   * @returns Promise resolving to the namespace's translation data
+   * @throws Error if loadPath has no namespace support, or if loading fails
+   */
+  async loadNamespace(
+    language: string,
+    namespace: string,
+    signal?: AbortSignal
+  ): Promise<TranslationData> {
+    return this.loadBundle(language, namespace, signal);
+  }
+
+  /**
+   * Load a language or namespace bundle through the cache and in-flight loads
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param signal - Optional AbortSignal to cancel waiting for the result
    * @returns Promise resolving to translation data
-   * @throws Error if loading fails
    */
-  async loadTranslations(language: string): Promise<TranslationData> {
+  private async loadBundle(
+    language: string,
+    namespace: string | undefined,
+    signal?: AbortSignal
+  ): Promise<TranslationData> {
+    const key = getBundleKey(language, namespace);
+    if (signal?.aborted) {
+      throw createAbortError(key);
+    }
+
+    // Expired bundles are reloaded
+    if (this.isExpired(key)) {
+      if (this.options.debug) {
+        console.log(`[ContentStorage] Cached translations for ${key} expired`);
+      }
+      this.dropBundle(key);
+    }
+
     // Check cache first
-    const cached = this.cache.get(language);
+    const cached = this.cache.get(key);
     if (cached) {
+      this.markUsed(key);
       if (this.options.debug) {
-        console.log(`[ContentStorage] Using cached translations for ${language}`);
+        console.log(`[ContentStorage] Using cached translations for ${key}`);
       }
+      this.events.emit('cacheHit', {
+        language,
+        ...(namespace && { namespace }),
+        cache: 'memory',
+      });
       return cached;
     }
 
-    const url = this.getLoadPath(language);
+    // Share a request that is already in flight
+    let load = this.inFlight.get(key);
+    if (load) {
+      if (this.options.debug) {
+        console.log(`[ContentStorage] Joining in-flight request for ${key}`);
+      }
+    } else {
+      load = this.startLoad(language, namespace);
+    }
 
-    if (this.options.debug) {
-      console.log(`[ContentStorage] Loading translations from: ${url}`);
+    return this.waitForLoad(key, load, signal);
+  }
+
+  /**
+   * Start a shared load for a bundle and register it as in flight
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @returns The in-flight load
+   */
+  private startLoad(language: string, namespace?: string): InFlightLoad {
+    const key = getBundleKey(language, namespace);
+    const controller = new AbortController();
+    const generation = this.generations.get(key) || 0;
+
+    const load: InFlightLoad = {
+      controller,
+      waiters: 0,
+      promise: this.loadUncached(
+        language,
+        namespace,
+        controller.signal,
+        generation
+      ).finally(() => {
+        if (this.inFlight.get(key) === load) {
+          this.inFlight.delete(key);
+        }
+      }),
+    };
+
+    // The shared promise may settle with no caller attached (all aborted)
+    load.promise.catch(() => undefined);
+
+    this.inFlight.set(key, load);
+    return load;
+  }
+
+  /**
+   * Wait for a shared load on behalf of a single caller
+   *
+   * @param key - Bundle key
+   * @param load - The in-flight load
+   * @param signal - The caller's AbortSignal
+   * @returns Promise resolving to translation data
+   */
+  private waitForLoad(
+    key: string,
+    load: InFlightLoad,
+    signal?: AbortSignal
+  ): Promise<TranslationData> {
+    load.waiters++;
+    if (!signal) {
+      return load.promise;
     }
 
-    try {
-      const fetchFn = this.options.request || this.defaultFetch.bind(this);
-      const translations = (await fetchFn(url, {
-        method: 'GET',
-        headers: { Accept: 'application/json' },
-      })) as TranslationData;
+    return new Promise<TranslationData>((resolve, reject) => {
+      const onAbort = () => {
+        load.waiters--;
+        if (load.waiters === 0) {
+          // Nobody is waiting anymore: cancel the request
+          if (this.inFlight.get(key) === load) {
+            this.inFlight.delete(key);
+          }
+          load.controller.abort();
+        }
+        reject(createAbortError(key));
+      };
 
-      // Cache the result
-      this.cache.set(language, translations);
+      signal.addEventListener('abort', onAbort, { once: true });
 
+      load.promise.then(
+        (translations) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(translations);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Load translations bypassing the in-memory cache
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param signal - AbortSignal of the shared load
+   * @param generation - Cache generation when the load started
+   * @returns Promise resolving to translation data
+   */
+  private async loadUncached(
+    language: string,
+    namespace: string | undefined,
+    signal: AbortSignal,
+    generation: number
+  ): Promise<TranslationData> {
+    if (this.isImported()) {
+      return this.importBundle(language, namespace, generation);
+    }
+
+    if (this.sourceLoaders.length) {
+      return this.loadSources(language, namespace, signal, generation);
+    }
+
+    const key = getBundleKey(language, namespace);
+    const url = this.getLoadPath(language, namespace);
+
+    // Serve from persistent cache and revalidate in the background
+    const persisted = await this.readPersistentCache(url);
+    if (persisted) {
+      this.setValidators(key, persisted);
+    }
+
+    if (persisted && this.isFresh(persisted)) {
       if (this.options.debug) {
-        console.log(`[ContentStorage] Loaded translations for ${language}`);
+        console.log(`[ContentStorage] Using persisted translations for ${key}`);
+      }
+      this.events.emit('cacheHit', {
+        language,
+        ...(namespace && { namespace }),
+        cache: 'persistent',
+      });
+      if (this.isCurrentGeneration(key, generation)) {
+        this.setCached(key, persisted.data, 'persistent');
+        this.revalidate(language, namespace, url, persisted.data);
+      }
+      return persisted.data;
+    }
+
+    try {
+      // An expired persisted bundle can still be confirmed by a 304 response
+      const result = await this.fetchBundle(language, namespace, url, false, signal);
+      const translations = result.data || persisted?.data;
+
+      if (!translations) {
+        throw new Error(
+          `Failed to load translations: received 304 Not Modified for ${key} without a cached bundle`
+        );
+      }
+
+      // A response that started before clearCache() must not repopulate the cache
+      if (this.isCurrentGeneration(key, generation)) {
+        this.setCached(key, translations, 'network');
+        this.writePersistentCache(key, url, translations);
       }
 
       return translations;
@@ -67,94 +606,1305 @@ export class ContentstorageLoader {
   }
 
   /**
-   * Get the URL to load translations from
+   * Check if bundles come from importTranslations rather than the network
+   * Drafts are always fetched in preview mode.
+   */
+  private isImported(): boolean {
+    return !!this.options.importTranslations && !this.previewMode;
+  }
+
+  /**
+   * Load a bundle inlined at build time with importTranslations
    *
    * @param language - Language code
-   * @returns URL string
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param generation - Cache generation when the load started
+   * @returns Promise resolving to the imported translation data
    */
-  private getLoadPath(language: string): string {
-    const { loadPath, contentKey } = this.options;
+  private async importBundle(
+    language: string,
+    namespace: string | undefined,
+    generation: number
+  ): Promise<TranslationData> {
+    const key = getBundleKey(language, namespace);
+    const { importTranslations } = this.options;
+    if (!importTranslations) {
+      throw new Error('[ContentStorage] importTranslations is not configured');
+    }
 
-    // Custom load path function
-    if (typeof loadPath === 'function') {
-      return loadPath(language);
+    const translations = await importTranslations(language, namespace);
+
+    if (this.isCurrentGeneration(key, generation)) {
+      this.setCached(key, translations, 'imported');
     }
 
-    // Custom load path string with interpolation
-    if (typeof loadPath === 'string') {
-      return loadPath.replace('{{lng}}', language);
+    if (this.options.debug) {
+      console.log(`[ContentStorage] Imported build-time translations for ${key}`);
     }
 
-    // Default CDN path requires contentKey
-    if (!contentKey) {
-      throw new Error(
-        '[ContentStorage] contentKey is required when using default CDN path. ' +
-          'Either provide a contentKey or use a custom loadPath.'
+    return translations;
+  }
+
+  /**
+   * Load a bundle from every content source and merge the results
+   * A failing optional source is left out; any other failure fails the load.
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param signal - AbortSignal of the shared load
+   * @param generation - Cache generation when the load started
+   * @returns Promise resolving to the merged translation data
+   */
+  private async loadSources(
+    language: string,
+    namespace: string | undefined,
+    signal: AbortSignal,
+    generation: number
+  ): Promise<TranslationData> {
+    const key = getBundleKey(language, namespace);
+
+    const bundles = await Promise.all(
+      this.sourceLoaders.map(async ({ source, loader }) => {
+        try {
+          const translations = await loader.loadBundle(language, namespace, signal);
+          return { source, translations };
+        } catch (error) {
+          if (!source.optional || signal.aborted) {
+            throw error;
+          }
+          if (this.options.debug) {
+            console.warn(
+              `[ContentStorage] Skipping optional source "${source.name}" for ${key}:`,
+              error
+            );
+          }
+          return null;
+        }
+      })
+    );
+
+    const { translations, keySources } = mergeSourceBundles(
+      bundles.filter((bundle): bundle is SourceBundle => bundle !== null)
+    );
+
+    if (this.isCurrentGeneration(key, generation)) {
+      // Persistent only if no source needed the network
+      const persistent = this.sourceLoaders.every(
+        ({ loader }) => loader.cacheInfo.get(key)?.source !== 'network'
       );
+      this.keySources.set(key, keySources);
+      this.setCached(key, translations, persistent ? 'persistent' : 'network');
     }
 
-    // Default: Always use uppercase language code
-    const lng = language.toUpperCase();
-
-    // Default CDN URL format
-    return `https://cdn.contentstorage.app/${contentKey}/content/${lng}.json`;
+    return translations;
   }
 
   /**
-   * Default fetch implementation
+   * Re-merge a cached bundle from the bundles its sources currently hold
+   * Called when a source's bundle changed. Nothing is merged while a required
+   * source holds no bundle (e.g. after primeCache()), which would drop its keys.
    *
-   * @param url - URL to fetch
-   * @param options - Fetch options
-   * @returns Promise resolving to parsed JSON
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @returns The update, or null if the bundle is not cached, incomplete or unchanged
    */
-  private async defaultFetch(url: string, options: RequestInit): Promise<unknown> {
-    const response = await fetch(url, options);
+  private mergeSources(
+    language: string,
+    namespace: string | undefined
+  ): TranslationUpdate | null {
+    const key = getBundleKey(language, namespace);
+    const current = this.cache.get(key);
+    if (!current) {
+      return null;
+    }
 
-    if (!response.ok) {
-      throw new Error(
-        `Failed to load translations: ${response.status} ${response.statusText}`
-      );
+    const bundles: SourceBundle[] = [];
+    for (const { source, loader } of this.sourceLoaders) {
+      const translations = loader.cache.get(key);
+      if (translations) {
+        bundles.push({ source, translations });
+      } else if (!source.optional) {
+        if (this.options.debug) {
+          console.warn(
+            `[ContentStorage] Not merging ${key}: source "${source.name}" has no bundle loaded`
+          );
+        }
+        return null;
+      }
     }
 
-    return response.json();
+    const merged = mergeSourceBundles(bundles);
+    this.keySources.set(key, merged.keySources);
+    return this.applyUpdate(language, namespace, current, merged.translations);
   }
 
   /**
-   * Clear the cache for a specific language or all languages
+   * Get the name of the content source a key was loaded from
+   * Only known for bundles loaded with contentSources configured.
    *
-   * @param language - Optional language code. If not provided, clears entire cache.
+   * @param language - Language code
+   * @param key - Dotted key, relative to the namespace bundle for namespaces
+   * @param namespace - Optional namespace
+   * @returns Source name, or undefined if unknown
    */
-  clearCache(language?: string): void {
-    if (language) {
-      this.cache.delete(language);
-      if (this.options.debug) {
-        console.log(`[ContentStorage] Cleared cache for ${language}`);
+  getKeySource(language: string, key: string, namespace?: string): string | undefined {
+    return this.keySources.get(getBundleKey(language, namespace))?.get(key);
+  }
+
+  /**
+   * Check if the cache for a bundle has not been cleared since a load started
+   *
+   * @param key - Bundle key
+   * @param generation - Generation captured when the load started
+   */
+  private isCurrentGeneration(key: string, generation: number): boolean {
+    return (this.generations.get(key) || 0) === generation;
+  }
+
+  /**
+   * Subscribe to translation updates found by background revalidation or refresh()
+   *
+   * @param listener - Called with the language, the new translations and,
+   *                   for namespace bundles, the namespace
+   * @returns Function that removes the listener
+   */
+  onUpdate(listener: TranslationUpdateListener): () => void {
+    this.updateListeners.add(listener);
+    return () => {
+      this.updateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch a bundle and emit loadStart/loadSuccess/loadError events
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param url - Primary URL
+   * @param background - Whether this is a background revalidation
+   * @param signal - Optional AbortSignal to cancel loading
+   * @returns Promise resolving to the fetch result (data is null on 304)
+   */
+  private async fetchBundle(
+    language: string,
+    namespace: string | undefined,
+    url: string,
+    background: boolean,
+    signal?: AbortSignal
+  ): Promise<FetchResult> {
+    const startedAt = Date.now();
+    const bundle = { language, ...(namespace && { namespace }) };
+    this.events.emit('loadStart', { ...bundle, url, background });
+
+    try {
+      const key = getBundleKey(language, namespace);
+      const result = await this.fetchWithRetry(key, url, signal);
+      if (result.data !== null) {
+        await this.verifyBundle(key, url, result.body, { ...bundle, url });
+        const context = { ...bundle, url };
+        result.data = this.validate(key, this.transform(result.data, context), context);
       }
-    } else {
-      this.cache.clear();
-      if (this.options.debug) {
-        console.log('[ContentStorage] Cleared entire translation cache');
+
+      this.events.emit('loadSuccess', {
+        ...bundle,
+        url,
+        background,
+        duration: Date.now() - startedAt,
+        notModified: result.data === null,
+      });
+      return result;
+    } catch (error) {
+      this.events.emit('loadError', { ...bundle, url, background, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a fetched bundle against the integrity manifest
+   * URL and function manifests are reloaded once if the bundle doesn't match.
+   *
+   * @param key - Bundle key (its manifest key, prefixed with the source name
+   *              for content sources)
+   * @param url - URL the bundle was loaded from
+   * @param body - Raw response body
+   * @param context - Bundle passed to a custom verify function
+   * @throws BundleIntegrityError if the bundle cannot be verified
+   */
+  private async verifyBundle(
+    key: string,
+    url: string,
+    body: string | undefined,
+    context: TranslationTransformContext
+  ): Promise<void> {
+    const { integrity } = this.options;
+    if (!integrity || this.previewMode) return;
+
+    // Parsed data returned by a custom request can't be hashed reliably
+    if (body === undefined) {
+      throw new BundleIntegrityError(key, url, 'missing-body');
+    }
+
+    const verify = integrity.verify || verifyIntegrity;
+    const check = async (reload: boolean): Promise<boolean | null> => {
+      let manifest: BundleIntegrityManifest;
+      try {
+        manifest = await this.loadIntegrityManifest(reload);
+      } catch (error) {
+        throw new BundleIntegrityError(key, url, 'manifest-unavailable', error);
       }
+
+      const expected = manifest[`${this.integrityKeyPrefix}${key}`];
+      return expected ? verify(body, expected, context) : null;
+    };
+
+    let verified = await check(false);
+    if (verified !== true && typeof integrity.manifest !== 'object') {
+      verified = await check(true);
+    }
+
+    if (verified !== true) {
+      throw new BundleIntegrityError(
+        key,
+        url,
+        verified === null ? 'missing-entry' : 'mismatch'
+      );
     }
   }
 
   /**
-   * Check if translations are cached for a language
+   * Get the integrity manifest, loading it on first use
    *
-   * @param language - Language code
-   * @returns true if cached
+   * @param reload - Load it again even if already loaded
+   * @returns Promise resolving to the manifest
    */
-  isCached(language: string): boolean {
-    return this.cache.has(language);
+  private loadIntegrityManifest(reload: boolean): Promise<BundleIntegrityManifest> {
+    const manifest = this.options.integrity?.manifest;
+    if (typeof manifest !== 'string' && typeof manifest !== 'function') {
+      return Promise.resolve(manifest || {});
+    }
+
+    if (!this.integrityManifest || reload) {
+      const promise =
+        typeof manifest === 'function'
+          ? manifest()
+          : this.fetchIntegrityManifest(manifest);
+      this.integrityManifest = promise;
+
+      // Don't keep a failed load around
+      promise.catch(() => {
+        if (this.integrityManifest === promise) {
+          this.integrityManifest = null;
+        }
+      });
+    }
+
+    return this.integrityManifest;
   }
 
   /**
-   * Get all cached languages
+   * Fetch an integrity manifest from a URL
    *
-   * @returns Array of language codes
+   * @param url - Manifest URL
+   * @returns Promise resolving to the manifest
+   * @throws Error if the request fails or the manifest is not an object
    */
-  getCachedLanguages(): string[] {
-    return Array.from(this.cache.keys());
+  private async fetchIntegrityManifest(url: string): Promise<BundleIntegrityManifest> {
+    const fetchFn = this.options.request || this.defaultFetch.bind(this);
+    const response = await fetchFn(url, {
+      method: 'GET',
+      headers: { Accept: 'application/json' },
+    });
+
+    // Custom request functions may return the parsed manifest directly
+    let manifest: unknown = response;
+    if (!this.options.request || isResponseLike(response)) {
+      const { ok, status, statusText } = response as TranslationResponse;
+      if (!(ok ?? (status >= 200 && status < 300))) {
+        throw new Error(`Failed to load integrity manifest: ${status} ${statusText}`);
+      }
+      manifest = await (response as TranslationResponse).json();
+    }
+
+    if (!isPlainObject(manifest)) {
+      throw new Error('[ContentStorage] Integrity manifest must be a JSON object');
+    }
+    return manifest as BundleIntegrityManifest;
+  }
+
+  /**
+   * Run the registered transformers over a parsed payload
+   * Non-object payloads are passed through for validation to reject.
+   *
+   * @param data - Parsed payload
+   * @param context - Bundle the payload belongs to
+   * @returns Transformed payload
+   */
+  private transform(data: unknown, context: TranslationTransformContext): unknown {
+    if (!isPlainObject(data)) {
+      return data;
+    }
+
+    return this.transformers.reduce<TranslationData>(
+      (translations, transformer) => transformer(translations, context),
+      data as TranslationData
+    );
+  }
+
+  /**
+   * Validate a fetched payload according to the validation option
+   *
+   * In 'omit' mode, the dropped keys are reported with a validationIssues event.
+   *
+   * @param key - Bundle key
+   * @param data - Parsed payload
+   * @param context - Bundle the payload was fetched for
+   * @returns Translations to use (invalid keys omitted unless in 'reject' mode)
+   * @throws TranslationValidationError if the payload is not an object, or has
+   *         invalid keys in 'reject' mode
+   */
+  private validate(
+    key: string,
+    data: unknown,
+    context: { language: string; namespace?: string; url: string }
+  ): TranslationData {
+    const { validation = true, debug } = this.options;
+
+    // Even without per-key checks, a non-object payload must not reach vue-i18n
+    if (validation === false) {
+      if (isPlainObject(data)) {
+        return data as TranslationData;
+      }
+      throw new TranslationValidationError(key, validateTranslations(data).issues);
+    }
+
+    const { onInvalid = 'omit', sanitizeHtml } = validation === true ? {} : validation;
+    const { translations, issues } = validateTranslations(data, { sanitizeHtml });
+
+    if (issues.length === 0) {
+      return translations;
+    }
+
+    const error = new TranslationValidationError(key, issues);
+    if (onInvalid === 'reject' || issues[0].type === 'invalid-payload') {
+      throw error;
+    }
+
+    if (debug) {
+      console.warn(`${error.message}; omitting invalid keys`, issues);
+    }
+    this.events.emit('validationIssues', { ...context, issues });
+    return translations;
+  }
+
+  /**
+   * Fetch translations, retrying with backoff and falling back to mirror URLs
+   *
+   * Each URL is attempted up to retry.attempts times; only network errors,
+   * timeouts and retryable statuses are retried. Any failure moves on to the
+   * next mirror once attempts for the current URL are exhausted.
+   *
+   * @param key - Bundle key
+   * @param url - Primary URL
+   * @param signal - Optional AbortSignal to cancel loading
+   * @returns Promise resolving to the fetch result (data is null on 304)
+   * @throws The last error if every URL failed
+   */
+  private async fetchWithRetry(
+    key: string,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<FetchResult> {
+    const policy = this.retryPolicy;
+    const urls = [url, ...this.getMirrorUrls(url)];
+    let lastError: unknown;
+
+    for (const candidate of urls) {
+      for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+        try {
+          return await this.fetchTranslations(key, candidate, signal);
+        } catch (error) {
+          lastError = error;
+
+          if (
+            signal?.aborted ||
+            (error instanceof Error && error.name === 'AbortError')
+          ) {
+            throw error;
+          }
+
+          if (attempt >= policy.attempts || !isRetryableError(policy, error)) {
+            break;
+          }
+
+          const delay = getRetryDelay(policy, attempt);
+          if (this.options.debug) {
+            console.warn(
+              `[ContentStorage] Attempt ${attempt}/${policy.attempts} for ${candidate} failed, retrying in ${delay}ms:`,
+              error
+            );
+          }
+
+          await wait(delay, signal);
+          if (signal?.aborted) {
+            throw createAbortError(key);
+          }
+        }
+      }
+
+      if (this.options.debug && candidate !== urls[urls.length - 1]) {
+        console.warn(`[ContentStorage] Giving up on ${candidate}, trying next mirror`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Build mirror URLs by appending the primary URL's path to each mirror base URL
+   *
+   * @param url - Primary URL
+   * @returns Mirror URLs in configured order
+   */
+  private getMirrorUrls(url: string): string[] {
+    const { mirrorUrls } = this.options;
+    if (!mirrorUrls || mirrorUrls.length === 0) return [];
+
+    // Strip scheme and host of absolute URLs; relative paths are used as-is
+    const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '').replace(/^\/?/, '/');
+
+    return mirrorUrls.map((base) => base.replace(/\/+$/, '') + path);
+  }
+
+  /**
+   * Fetch translations from the network
+   * Sends If-None-Match/If-Modified-Since when validators are known for the bundle,
+   * and rejects if the configured requestTimeout elapses first.
+   *
+   * @param key - Bundle key
+   * @param url - URL to fetch from
+   * @param signal - Optional AbortSignal to cancel the request
+   * @returns Promise resolving to the fetch result (data is null on 304)
+   */
+  private fetchTranslations(
+    key: string,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<FetchResult> {
+    const timeout = this.options.requestTimeout;
+    if (!timeout && !signal) {
+      return this.request(key, url);
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const cancelled = new Promise<never>((_, reject) => {
+      if (timeout) {
+        timer = setTimeout(() => {
+          reject(
+            new Error(
+              `[ContentStorage] Loading translations for ${key} timed out after ${timeout}ms`
+            )
+          );
+          controller.abort();
+        }, timeout);
+      }
+
+      if (signal) {
+        onAbort = () => {
+          reject(createAbortError(key));
+          controller.abort();
+        };
+        if (signal.aborted) {
+          onAbort();
+        } else {
+          signal.addEventListener('abort', onAbort, { once: true });
+        }
+      }
+    });
+
+    // Custom request functions may ignore the signal, so race them as well
+    return Promise.race([this.request(key, url, controller.signal), cancelled]).finally(
+      () => {
+        clearTimeout(timer);
+        if (signal && onAbort) {
+          signal.removeEventListener('abort', onAbort);
+        }
+      }
+    );
+  }
+
+  /**
+   * Perform the network request for a bundle
+   *
+   * @param key - Bundle key
+   * @param url - URL to fetch from
+   * @param signal - Optional AbortSignal passed to the request function
+   * @returns Promise resolving to the fetch result (data is null on 304)
+   */
+  private async request(
+    key: string,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<FetchResult> {
+    if (this.options.debug) {
+      console.log(`[ContentStorage] Loading translations from: ${url}`);
+    }
+
+    const headers: Record<string, string> = {
+      Accept: resolveFormat(this.formats, url).contentTypes[0] || 'application/json',
+    };
+    const validators = this.validators.get(key);
+    if (validators?.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators?.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+    if (this.previewMode && this.options.preview?.headers) {
+      Object.assign(headers, await this.options.preview.headers(url));
+    }
+
+    const fetchFn = this.options.request || this.defaultFetch.bind(this);
+    const response = await fetchFn(url, {
+      method: 'GET',
+      headers,
+      ...(signal && { signal }),
+    });
+
+    // Custom request functions may return parsed data or raw file content directly
+    if (this.options.request && !isResponseLike(response)) {
+      this.validators.delete(key);
+      if (typeof response === 'string') {
+        const data = resolveFormat(this.formats, url).parse(response) as TranslationData;
+        return { data, body: response };
+      }
+      return { data: response as TranslationData };
+    }
+
+    const result = await this.readResponse(response as TranslationResponse, url);
+
+    if (result.data === null) {
+      if (this.options.debug) {
+        console.log(`[ContentStorage] Translations for ${key} not modified`);
+      }
+      return result;
+    }
+
+    this.setValidators(key, result);
+
+    if (this.options.debug) {
+      console.log(`[ContentStorage] Loaded translations for ${key}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Read status, validators and body from a fetch-like response
+   * The body is parsed with the format matching its Content-Type or URL.
+   *
+   * @param response - Response to read
+   * @param url - URL the response was fetched from
+   * @returns Fetch result (data is null on 304)
+   * @throws Error if the response status is not successful, or the body
+   *         cannot be parsed
+   */
+  private async readResponse(
+    response: TranslationResponse,
+    url: string
+  ): Promise<FetchResult> {
+    const etag = response.headers?.get('ETag') || undefined;
+    const lastModified = response.headers?.get('Last-Modified') || undefined;
+
+    if (response.status === 304) {
+      return { data: null, etag, lastModified };
+    }
+
+    const ok = response.ok ?? (response.status >= 200 && response.status < 300);
+    if (!ok) {
+      // Expose the status so the retry policy can tell transient failures apart
+      throw Object.assign(
+        new Error(
+          `Failed to load translations: ${response.status} ${response.statusText}`
+        ),
+        { status: response.status }
+      );
+    }
+
+    const format = resolveFormat(
+      this.formats,
+      url,
+      response.headers?.get('Content-Type')
+    );
+    if (format.name === 'json' && !this.options.integrity) {
+      return { data: (await response.json()) as TranslationData, etag, lastModified };
+    }
+
+    // Integrity checks hash the raw body, so it's read as text in every format
+    if (typeof response.text !== 'function') {
+      throw new Error(
+        `[ContentStorage] Cannot read ${format.name} translations from ${url}: response has no text() method`
+      );
+    }
+
+    const body = await response.text();
+    const data = format.parse(body) as TranslationData;
+    return { data, body, etag, lastModified };
+  }
+
+  /**
+   * Remember ETag/Last-Modified for a bundle
+   *
+   * @param key - Bundle key
+   * @param validators - Validators from a response or persisted entry
+   */
+  private setValidators(key: string, validators: BundleValidators): void {
+    const { etag, lastModified } = validators;
+    if (etag || lastModified) {
+      this.validators.set(key, { etag, lastModified });
+    } else {
+      this.validators.delete(key);
+    }
+  }
+
+  /**
+   * Refetch a persisted bundle in the background and notify listeners if it changed
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param url - URL to fetch from
+   * @param current - Translations currently served
+   */
+  private revalidate(
+    language: string,
+    namespace: string | undefined,
+    url: string,
+    current: TranslationData
+  ): void {
+    const key = getBundleKey(language, namespace);
+
+    this.fetchBundle(language, namespace, url, true)
+      .then(({ data: translations }) => {
+        // 304: bundle is still valid, just refresh its timestamp
+        if (!translations) {
+          this.writePersistentCache(key, url, current);
+          return;
+        }
+
+        this.writePersistentCache(key, url, translations);
+        this.applyUpdate(language, namespace, current, translations);
+      })
+      .catch((error) => {
+        if (this.options.debug) {
+          console.warn(`[ContentStorage] Failed to revalidate ${key}:`, error);
+        }
+      });
+  }
+
+  /**
+   * Replace a cached bundle with newer content and notify listeners
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param current - Translations the newer content was fetched for
+   * @param translations - Newer translations
+   * @returns Changed keys, or null if nothing changed or the bundle was
+   *          cleared or replaced meanwhile
+   */
+  private applyUpdate(
+    language: string,
+    namespace: string | undefined,
+    current: TranslationData,
+    translations: TranslationData
+  ): TranslationUpdate | null {
+    const key = getBundleKey(language, namespace);
+
+    // Don't resurrect a bundle whose cache was cleared meanwhile
+    if (this.cache.get(key) !== current) {
+      return null;
+    }
+
+    const changes = diffTranslations(current, translations);
+    if (
+      changes.added.length === 0 &&
+      changes.changed.length === 0 &&
+      changes.removed.length === 0
+    ) {
+      return null;
+    }
+
+    this.setCached(key, translations, 'network');
+
+    if (this.options.debug) {
+      console.log(`[ContentStorage] Updated translations for ${key}:`, changes);
+    }
+
+    this.updateListeners.forEach((listener) =>
+      namespace
+        ? listener(language, translations, namespace)
+        : listener(language, translations)
+    );
+
+    const update: TranslationUpdate = {
+      language,
+      ...(namespace && { namespace }),
+      changes,
+    };
+    this.events.emit('contentUpdated', update);
+    return update;
+  }
+
+  /**
+   * Check a cached bundle for newer content
+   * Uses a conditional request when validators are known. Changed content
+   * replaces the cached bundle, notifies onUpdate() listeners and emits
+   * contentUpdated. Concurrent calls for the same bundle share one request.
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @returns The update, or null if the bundle is not cached or unchanged
+   * @throws Error if the request fails
+   */
+  refresh(language: string, namespace?: string): Promise<TranslationUpdate | null> {
+    const key = getBundleKey(language, namespace);
+    const pending = this.refreshing.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    // Build-time bundles only change with a new build
+    const current = this.cache.get(key);
+    if (!current || this.isImported()) {
+      return Promise.resolve(null);
+    }
+
+    const promise = (
+      this.sourceLoaders.length
+        ? this.refreshSources(language, namespace)
+        : this.refreshBundle(language, namespace, current)
+    ).finally(() => {
+      this.refreshing.delete(key);
+    });
+
+    this.refreshing.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Refetch a cached bundle and apply it if it changed
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @param current - Translations currently cached
+   * @returns The update, or null if unchanged
+   */
+  private async refreshBundle(
+    language: string,
+    namespace: string | undefined,
+    current: TranslationData
+  ): Promise<TranslationUpdate | null> {
+    const key = getBundleKey(language, namespace);
+    const url = this.getLoadPath(language, namespace);
+    const { data: translations } = await this.fetchBundle(language, namespace, url, true);
+
+    this.writePersistentCache(key, url, translations || current);
+    return translations
+      ? this.applyUpdate(language, namespace, current, translations)
+      : null;
+  }
+
+  /**
+   * Refresh a bundle in every content source, then merge the results
+   * Sources not holding the bundle yet (e.g. when the merged bundle was primed
+   * with primeCache()) load it in full. Failures of optional sources are ignored.
+   *
+   * @param language - Language code
+   * @param namespace - Namespace, or undefined for the language bundle
+   * @returns The update, or null if unchanged
+   */
+  private async refreshSources(
+    language: string,
+    namespace: string | undefined
+  ): Promise<TranslationUpdate | null> {
+    const key = getBundleKey(language, namespace);
+
+    await Promise.all(
+      this.sourceLoaders.map(({ source, loader }) => {
+        const update: Promise<unknown> = loader.cache.has(key)
+          ? loader.refresh(language, namespace)
+          : loader.loadBundle(language, namespace);
+        return update.catch((error) => {
+          if (!source.optional) {
+            throw error;
+          }
+          return null;
+        });
+      })
+    );
+    return this.mergeSources(language, namespace);
+  }
+
+  /**
+   * Check every cached language and namespace bundle for newer content
+   * Failures are reported through loadError events and don't stop other bundles.
+   *
+   * @returns Updates for the bundles that changed
+   */
+  async refreshAll(): Promise<TranslationUpdate[]> {
+    const updates = await Promise.all(
+      Array.from(this.cache.keys(), (key) => {
+        const { language, namespace } = parseBundleKey(key);
+        return this.refresh(language, namespace).catch((error) => {
+          if (this.options.debug) {
+            console.warn(`[ContentStorage] Failed to refresh ${key}:`, error);
+          }
+          return null;
+        });
+      })
+    );
+
+    return updates.filter((update): update is TranslationUpdate => update !== null);
+  }
+
+  /**
+   * Check if a persisted bundle is within the configured TTL
+   *
+   * @param entry - Persisted entry
+   * @returns true if the entry may be served without a blocking request
+   */
+  private isFresh(entry: PersistedTranslations): boolean {
+    const ttl = this.options.persistentCacheTtl ?? DEFAULT_PERSISTENT_CACHE_TTL;
+    return Date.now() - entry.timestamp <= ttl;
+  }
+
+  /**
+   * Read a bundle from the persistent cache
+   *
+   * @param key - Cache key (the bundle URL)
+   * @returns Persisted entry (possibly expired), or null if missing
+   */
+  private async readPersistentCache(key: string): Promise<PersistedTranslations | null> {
+    // Drafts are never persisted, and published bundles must not be previewed
+    if (!this.persistentCache || this.previewMode) return null;
+
+    try {
+      const entry = await this.persistentCache.get(key);
+      if (!entry || !entry.data) return null;
+
+      return entry;
+    } catch (error) {
+      if (this.options.debug) {
+        console.warn('[ContentStorage] Failed to read persistent cache:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Write a bundle to the persistent cache (best effort, not awaited)
+   * Known validators are stored alongside so conditional requests survive reloads.
+   *
+   * @param key - Bundle key
+   * @param url - Cache key (the bundle URL)
+   * @param data - Translation data
+   */
+  private writePersistentCache(key: string, url: string, data: TranslationData): void {
+    if (!this.persistentCache || this.previewMode) return;
+
+    const entry: PersistedTranslations = {
+      data,
+      timestamp: Date.now(),
+      ...this.validators.get(key),
+    };
+
+    this.persistentCache.set(url, entry).catch((error) => {
+      if (this.options.debug) {
+        console.warn('[ContentStorage] Failed to write persistent cache:', error);
+      }
+    });
+  }
+
+  /**
+   * Get the URL to load translations from
+   * In preview mode, preview.loadPath replaces loadPath.
+   *
+   * @param language - Language code
+   * @param namespace - Optional namespace
+   * @returns URL string
+   * @throws Error if a namespace is requested but loadPath cannot express it,
+   *         or a language bundle is requested but loadPath needs a namespace
+   */
+  private getLoadPath(language: string, namespace?: string): string {
+    const { contentKey, localeMapping } = this.options;
+    const loadPath = this.getActiveLoadPath();
+
+    // Custom load paths get the app locale unless a mapping is configured
+    const code = localeMapping ? mapLocaleCode(language, localeMapping) : language;
+
+    // Custom load path function
+    if (typeof loadPath === 'function') {
+      return loadPath(code, namespace);
+    }
+
+    if (namespace && !(typeof loadPath === 'string' && loadPath.includes('{{ns}}'))) {
+      throw new Error(
+        `[ContentStorage] Cannot load namespace "${namespace}": ` +
+          'loadPath must contain a {{ns}} placeholder or be a function.'
+      );
+    }
+
+    if (!namespace && typeof loadPath === 'string' && loadPath.includes('{{ns}}')) {
+      throw new Error(
+        `[ContentStorage] Cannot load the ${language} language bundle: ` +
+          'loadPath contains a {{ns}} placeholder. Load namespaces with loadNamespace() instead.'
+      );
+    }
+
+    // Custom load path string with interpolation
+    if (typeof loadPath === 'string') {
+      const path = loadPath.replace('{{lng}}', code);
+      return namespace ? path.replace('{{ns}}', namespace) : path;
+    }
+
+    // Default CDN path requires contentKey
+    if (!contentKey) {
+      throw new Error(
+        '[ContentStorage] contentKey is required when using default CDN path. ' +
+          'Either provide a contentKey or use a custom loadPath.'
+      );
+    }
+
+    // Default: uppercase language code as given (no normalization), unless
+    // a mapping is configured
+    const lng = localeMapping
+      ? mapLocaleCode(language, localeMapping)
+      : language.toUpperCase();
+
+    // Default CDN URL format
+    return `https://cdn.contentstorage.app/${contentKey}/content/${lng}.json`;
+  }
+
+  /**
+   * Default fetch implementation
+   * Status handling and JSON parsing happen in readResponse.
+   *
+   * @param url - URL to fetch
+   * @param options - Fetch options
+   * @returns Promise resolving to the fetch Response
+   */
+  private defaultFetch(url: string, options: RequestInit): Promise<Response> {
+    return fetch(url, options);
+  }
+
+  /**
+   * Clear the cache for a specific language, namespace or everything
+   * Persisted entries for the cleared bundles are removed as well.
+   *
+   * @param language - Optional language code. If not provided, clears entire cache.
+   * @param namespace - Optional namespace. If not provided, clears the language
+   *                    bundle and all of the language's namespaces.
+   */
+  clearCache(language?: string, namespace?: string): void {
+    const matches = (key: string): boolean => {
+      if (!language) return true;
+      const bundle = parseBundleKey(key);
+      return (
+        bundle.language === language && (!namespace || bundle.namespace === namespace)
+      );
+    };
+
+    const keys = new Set(
+      Array.from(this.cache.keys())
+        .concat(Array.from(this.inFlight.keys()))
+        .filter(matches)
+    );
+    if (language) {
+      keys.add(getBundleKey(language, namespace));
+    }
+
+    this.removePersistentCache(Array.from(keys));
+
+    keys.forEach((key) => {
+      // Invalidate loads that are still in flight
+      this.inFlight.delete(key);
+      this.generations.set(key, (this.generations.get(key) || 0) + 1);
+      this.dropBundle(key);
+    });
+
+    this.sourceLoaders.forEach(({ loader }) => loader.clearCache(language, namespace));
+
+    if (this.options.debug) {
+      console.log(
+        language
+          ? `[ContentStorage] Cleared cache for ${getBundleKey(language, namespace)}`
+          : '[ContentStorage] Cleared entire translation cache'
+      );
+    }
+  }
+
+  /**
+   * Remove persisted bundles for the given bundle keys (best effort)
+   *
+   * @param keys - Bundle keys to remove
+   */
+  private removePersistentCache(keys: string[]): void {
+    if (!this.persistentCache || this.previewMode) return;
+
+    for (const key of keys) {
+      const { language, namespace } = parseBundleKey(key);
+      let url: string;
+      try {
+        url = this.getLoadPath(language, namespace);
+      } catch (e) {
+        continue;
+      }
+      this.persistentCache.remove(url).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Put a bundle into the in-memory cache and evict languages over the limit
+   * A bundle that was not cached yet counts as used; replacing a cached
+   * bundle (refresh, revalidation) doesn't.
+   *
+   * @param key - Bundle key
+   * @param translations - Translation data
+   * @param source - How the bundle was obtained
+   */
+  private setCached(
+    key: string,
+    translations: TranslationData,
+    source: CacheEntrySource
+  ): void {
+    const previous = this.cacheInfo.get(key);
+    const now = Date.now();
+
+    this.cache.set(key, translations);
+    this.cacheInfo.set(key, {
+      source,
+      cachedAt: now,
+      lastUsedAt: previous ? previous.lastUsedAt : now,
+    });
+
+    if (!previous) {
+      this.markUsed(key);
+      this.evictLeastRecentlyUsed();
+    }
+  }
+
+  /**
+   * Record that a cached bundle was used
+   *
+   * @param key - Bundle key
+   */
+  private markUsed(key: string): void {
+    const info = this.cacheInfo.get(key);
+    if (info) {
+      info.lastUsedAt = Date.now();
+    }
+
+    const { language } = parseBundleKey(key);
+    this.recentLanguages.delete(language);
+    this.recentLanguages.add(language);
+  }
+
+  /**
+   * Check if a cached bundle is older than memoryCache.ttl
+   *
+   * @param key - Bundle key
+   */
+  private isExpired(key: string): boolean {
+    const ttl = this.options.memoryCache?.ttl;
+    const info = this.cacheInfo.get(key);
+    return !!info && ttl !== undefined && Date.now() - info.cachedAt > ttl;
+  }
+
+  /**
+   * Remove a bundle from the in-memory cache (and from the content sources)
+   * Persisted entries are kept.
+   *
+   * @param key - Bundle key
+   */
+  private dropBundle(key: string): void {
+    this.cache.delete(key);
+    this.cacheInfo.delete(key);
+    this.validators.delete(key);
+    this.keySources.delete(key);
+
+    const { language } = parseBundleKey(key);
+    if (!this.hasLanguage(language)) {
+      this.recentLanguages.delete(language);
+    }
+
+    this.sourceLoaders.forEach(({ loader }) => loader.dropBundle(key));
+  }
+
+  /**
+   * Check if any bundle of a language is cached
+   *
+   * @param language - Language code
+   */
+  private hasLanguage(language: string): boolean {
+    return Array.from(this.cache.keys()).some(
+      (key) => parseBundleKey(key).language === language
+    );
+  }
+
+  /**
+   * Evict the least recently used languages beyond memoryCache.maxLanguages
+   */
+  private evictLeastRecentlyUsed(): void {
+    const max = this.options.memoryCache?.maxLanguages;
+    if (!max) return;
+
+    for (const language of Array.from(this.recentLanguages)) {
+      if (this.recentLanguages.size <= max) break;
+
+      const keys = Array.from(this.cache.keys()).filter(
+        (key) => parseBundleKey(key).language === language
+      );
+      this.evict(keys, 'lru');
+    }
+  }
+
+  /**
+   * Drop bundles and emit cacheEvicted for each once all are gone
+   *
+   * @param keys - Bundle keys
+   * @param reason - Why the bundles are evicted
+   */
+  private evict(keys: string[], reason: CacheEvictionReason): void {
+    keys.forEach((key) => this.dropBundle(key));
+
+    if (this.options.debug && keys.length > 0) {
+      console.log(`[ContentStorage] Evicted ${keys.join(', ')} from cache (${reason})`);
+    }
+
+    for (const key of keys) {
+      this.events.emit('cacheEvicted', { ...parseBundleKey(key), reason });
+    }
+  }
+
+  /**
+   * Evict every bundle older than memoryCache.ttl
+   * Expired bundles are otherwise only dropped when they are used again.
+   *
+   * @returns Number of evicted bundles
+   */
+  pruneCache(): number {
+    const keys = Array.from(this.cache.keys()).filter((key) => this.isExpired(key));
+    this.evict(keys, 'expired');
+    return keys.length;
+  }
+
+  /**
+   * Describe the bundles in the in-memory cache
+   *
+   * @returns One entry per cached language or namespace bundle
+   */
+  getCacheEntries(): CacheEntryInfo[] {
+    const now = Date.now();
+
+    return Array.from(this.cacheInfo, ([key, info]) => {
+      const translations = this.cache.get(key) || {};
+      return {
+        ...parseBundleKey(key),
+        source: info.source,
+        size: JSON.stringify(translations).length,
+        keys: flattenTranslations(translations).length,
+        cachedAt: info.cachedAt,
+        lastUsedAt: info.lastUsedAt,
+        age: now - info.cachedAt,
+        expired: this.isExpired(key),
+      };
+    });
+  }
+
+  /**
+   * Check if translations are cached for a language or namespace
+   *
+   * @param language - Language code
+   * @param namespace - Optional namespace
+   * @returns true if cached
+   */
+  isCached(language: string, namespace?: string): boolean {
+    return this.cache.has(getBundleKey(language, namespace));
+  }
+
+  /**
+   * Get all languages whose language bundle is cached
+   *
+   * @returns Array of language codes
+   */
+  getCachedLanguages(): string[] {
+    return Array.from(this.cache.keys()).filter((key) => !parseBundleKey(key).namespace);
+  }
+
+  /**
+   * Get all cached namespaces of a language
+   *
+   * @param language - Language code
+   * @returns Array of namespaces
+   */
+  getCachedNamespaces(language: string): string[] {
+    const namespaces: string[] = [];
+    this.cache.forEach((_, key) => {
+      const bundle = parseBundleKey(key);
+      if (bundle.language === language && bundle.namespace) {
+        namespaces.push(bundle.namespace);
+      }
+    });
+    return namespaces;
+  }
+
+  /**
+   * Get a snapshot of all cached language bundles
+   * Used to serialize loaded bundles during server-side rendering.
+   *
+   * @returns Object mapping language codes to translation data
+   */
+  getCacheSnapshot(): Record<string, TranslationData> {
+    const snapshot: Record<string, TranslationData> = {};
+    for (const language of this.getCachedLanguages()) {
+      snapshot[language] = this.cache.get(language) as TranslationData;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Get a snapshot of all cached namespace bundles
+   * Used to serialize loaded namespaces during server-side rendering.
+   *
+   * @returns Object mapping language codes to namespaces and their translation data
+   */
+  getNamespaceCacheSnapshot(): Record<string, Record<string, TranslationData>> {
+    const snapshot: Record<string, Record<string, TranslationData>> = {};
+    this.cache.forEach((translations, key) => {
+      const { language, namespace } = parseBundleKey(key);
+      if (namespace) {
+        snapshot[language] = { ...snapshot[language], [namespace]: translations };
+      }
+    });
+    return snapshot;
+  }
+
+  /**
+   * Put translations into the in-memory cache without fetching
+   * Used to hydrate the loader with bundles serialized on the server.
+   *
+   * @param language - Language code
+   * @param translations - Translation data
+   * @param namespace - Optional namespace of the bundle
+   */
+  primeCache(language: string, translations: TranslationData, namespace?: string): void {
+    const key = getBundleKey(language, namespace);
+    this.setCached(key, translations, 'primed');
+
+    if (this.options.debug) {
+      console.log(`[ContentStorage] Primed cache for ${key}`);
+    }
   }
 }
 
@@ -162,10 +1912,12 @@ export class ContentstorageLoader {
  * Factory function to create a ContentStorage loader
  *
  * @param options - Loader configuration options
+ * @param events - Optional event emitter shared with other components
  * @returns ContentstorageLoader instance
  */
 export function createContentstorageLoader(
-  options: ContentstorageVueI18nOptions
+  options: ContentstorageVueI18nOptions,
+  events?: ContentstorageEventEmitter
 ): ContentstorageLoader {
-  return new ContentstorageLoader(options);
+  return new ContentstorageLoader(options, events);
 }
@@ -0,0 +1,54 @@
+import type { LocaleMapping } from './types';
+
+/**
+ * Normalize a locale code to BCP 47 casing
+ * Underscores become hyphens, the language is lowercased, scripts are
+ * title-cased and regions uppercased: 'pt_br' → 'pt-BR', 'ZH-HANT-tw' → 'zh-Hant-TW'.
+ *
+ * @param locale - Locale code
+ * @returns Normalized locale code
+ */
+export function normalizeLocaleCode(locale: string): string {
+  return locale
+    .trim()
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((subtag, index) => {
+      if (index === 0) return subtag.toLowerCase();
+      if (/^[a-z]{4}$/i.test(subtag)) {
+        return subtag.charAt(0).toUpperCase() + subtag.slice(1).toLowerCase();
+      }
+      if (/^([a-z]{2}|\d{3})$/i.test(subtag)) return subtag.toUpperCase();
+      return subtag.toLowerCase();
+    })
+    .join('-');
+}
+
+/**
+ * Map an app locale to a Contentstorage language code
+ *
+ * An explicit map entry wins (looked up by the locale as given, then normalized).
+ * Otherwise the code is normalized (unless disabled) and the case policy applied.
+ *
+ * @param locale - App locale code
+ * @param mapping - Locale mapping configuration
+ * @returns Contentstorage language code
+ */
+export function mapLocaleCode(locale: string, mapping: LocaleMapping = {}): string {
+  const { map, normalize = true } = mapping;
+  const normalized = normalize ? normalizeLocaleCode(locale) : locale;
+
+  const mapped = map?.[locale] ?? map?.[normalized];
+  if (mapped !== undefined) {
+    return mapped;
+  }
+
+  switch (mapping.case ?? 'upper') {
+    case 'upper':
+      return normalized.toUpperCase();
+    case 'lower':
+      return normalized.toLowerCase();
+    default:
+      return normalized;
+  }
+}
@@ -0,0 +1,330 @@
+import type { Composer, I18n, VueI18n } from 'vue-i18n';
+import type {
+  ContentstorageVueI18nOptions,
+  MissingKeyOptions,
+  MissingKeyReport,
+} from './types';
+import { ContentstorageEventEmitter } from './events';
+import { isBrowser } from './utils';
+
+/**
+ * vue-i18n's missing handler (locale, key, component instance, type)
+ */
+type MissingHandler = (
+  locale: string,
+  key: string,
+  instance?: unknown,
+  type?: string
+) => string | void;
+
+/**
+ * Default time between a new report and the flush
+ */
+const DEFAULT_FLUSH_INTERVAL = 10 * 1000;
+
+/**
+ * Default number of distinct reports that triggers a flush
+ */
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Collector of keys vue-i18n cannot resolve
+ *
+ * Chains vue-i18n's missing handler to record each lookup of a missing key
+ * with its locale and route. Lookups are deduplicated (with a count) and
+ * flushed in batches to onReport or a POST endpoint, after flushInterval or
+ * once batchSize distinct keys are pending. Pending reports are sent with
+ * navigator.sendBeacon when the page is hidden or unloaded.
+ *
+ * vue-i18n also calls the missing handler for each fallback locale a key is
+ * missing from, so a key only present in the fallback locale is reported for
+ * the requested one.
+ *
+ * @example
+ * ```typescript
+ * const collector = new ContentstorageMissingKeyCollector({
+ *   missingKeys: { endpoint: '/api/missing-keys' },
+ * });
+ * collector.attach(i18n);
+ * collector.start();
+ * ```
+ */
+export class ContentstorageMissingKeyCollector {
+  private options: MissingKeyOptions;
+  private debug: boolean;
+  private pending = new Map<string, MissingKeyReport>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  /**
+   * Event emitter (missingKey, missingKeysReported)
+   */
+  readonly events: ContentstorageEventEmitter;
+
+  /**
+   * @param options - Configuration options (uses missingKeys and debug)
+   * @param events - Optional emitter shared with other components
+   *                 (defaults to a new emitter with options.hooks)
+   */
+  constructor(
+    options: ContentstorageVueI18nOptions = {},
+    events?: ContentstorageEventEmitter
+  ) {
+    this.events = events || new ContentstorageEventEmitter(options.hooks);
+    this.debug = options.debug || false;
+    this.options = typeof options.missingKeys === 'object' ? options.missingKeys : {};
+  }
+
+  /**
+   * Whether unload listeners are installed
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Chain the collector into a vue-i18n instance's missing handler
+   * A handler already set on the instance is still called, and its result returned.
+   *
+   * @param i18n - The vue-i18n instance
+   */
+  attach(i18n: I18n): void {
+    const instance = i18n.global as Composer | VueI18n | undefined;
+    if (!instance) {
+      console.warn('[ContentStorage] Could not get vue-i18n global instance');
+      return;
+    }
+
+    let existingHandler: MissingHandler | null = null;
+    if (
+      'getMissingHandler' in instance &&
+      typeof instance.getMissingHandler === 'function'
+    ) {
+      existingHandler = instance.getMissingHandler() as MissingHandler | null;
+    } else if ('missing' in instance) {
+      existingHandler = (instance.missing as MissingHandler | null) || null;
+    }
+
+    const handler: MissingHandler = (locale, key, ...rest) => {
+      this.record(key, locale);
+
+      if (existingHandler && typeof existingHandler === 'function') {
+        return existingHandler(locale, key, ...rest);
+      }
+    };
+
+    if (
+      'setMissingHandler' in instance &&
+      typeof instance.setMissingHandler === 'function'
+    ) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (instance.setMissingHandler as (handler: any) => void)(handler);
+    } else {
+      // Legacy API: missing is a plain property
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (instance as any).missing = handler;
+    }
+
+    if (this.debug) {
+      console.log('[ContentStorage] Missing key handler set up');
+    }
+  }
+
+  /**
+   * Record a lookup of a missing key
+   *
+   * @param key - Message key
+   * @param locale - Locale the key was looked up in
+   */
+  record(key: string, locale: string): void {
+    if (this.options.ignore?.(key, locale)) return;
+
+    const route = this.getRoute();
+    const id = `${locale}\0${route || ''}\0${key}`;
+    const now = Date.now();
+    const report = this.pending.get(id);
+
+    if (report) {
+      report.count++;
+      report.lastSeen = now;
+      return;
+    }
+
+    this.pending.set(id, {
+      key,
+      locale,
+      ...(route !== undefined && { route }),
+      count: 1,
+      firstSeen: now,
+      lastSeen: now,
+    });
+    this.events.emit('missingKey', {
+      key,
+      locale,
+      ...(route !== undefined && { route }),
+    });
+
+    if (this.debug) {
+      console.log(`[ContentStorage] Missing key "${key}" (${locale})`);
+    }
+
+    if (this.pending.size >= (this.options.batchSize || DEFAULT_BATCH_SIZE)) {
+      this.flush();
+    } else {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Reports not flushed yet
+   */
+  getPending(): MissingKeyReport[] {
+    return Array.from(this.pending.values(), (report) => ({ ...report }));
+  }
+
+  /**
+   * Send pending reports now
+   * Failures are reported with a missingKeysReported event; the batch is dropped.
+   */
+  async flush(): Promise<void> {
+    const reports = this.takePending();
+    if (reports.length === 0) return;
+
+    try {
+      if (this.options.onReport) {
+        await this.options.onReport(reports);
+      } else if (this.options.endpoint) {
+        const response = await fetch(this.options.endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.options.headers },
+          body: JSON.stringify({ missingKeys: reports }),
+          keepalive: true,
+        });
+        if (!response.ok) {
+          throw new Error(
+            `[ContentStorage] Failed to report missing keys: ${response.status} ${response.statusText}`
+          );
+        }
+      }
+
+      if (this.debug) {
+        console.log(`[ContentStorage] Reported ${reports.length} missing keys`);
+      }
+      this.events.emit('missingKeysReported', { reports });
+    } catch (error) {
+      if (this.debug) {
+        console.warn('[ContentStorage] Failed to report missing keys:', error);
+      }
+      this.events.emit('missingKeysReported', { reports, error });
+    }
+  }
+
+  /**
+   * Install listeners sending pending reports when the page is hidden or
+   * unloaded (no-op outside the browser or if already started)
+   */
+  start(): void {
+    if (this.running || !isBrowser()) return;
+
+    this.running = true;
+    window.addEventListener('pagehide', this.handlePageHide);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  /**
+   * Remove the listeners and cancel the scheduled flush
+   * Pending reports are kept until the next flush().
+   */
+  stop(): void {
+    this.clearTimer();
+    if (!this.running) return;
+
+    this.running = false;
+    window.removeEventListener('pagehide', this.handlePageHide);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+  }
+
+  private getRoute(): string | undefined {
+    if (this.options.getRoute) {
+      return this.options.getRoute();
+    }
+    return isBrowser() ? window.location.pathname : undefined;
+  }
+
+  private takePending(): MissingKeyReport[] {
+    this.clearTimer();
+    const reports = Array.from(this.pending.values());
+    this.pending.clear();
+    return reports;
+  }
+
+  /**
+   * Schedule a flush unless one is scheduled (browser only; call flush()
+   * on the server)
+   */
+  private schedule(): void {
+    if (this.timer !== null || !isBrowser()) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.options.flushInterval ?? DEFAULT_FLUSH_INTERVAL);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send pending reports with sendBeacon, which outlives the page
+   * Falls back to flush() for onReport or without sendBeacon.
+   */
+  private flushOnUnload(): void {
+    const { endpoint, onReport } = this.options;
+    if (onReport || !endpoint || typeof navigator.sendBeacon !== 'function') {
+      this.flush();
+      return;
+    }
+
+    const reports = this.takePending();
+    if (reports.length === 0) return;
+
+    const body = new Blob([JSON.stringify({ missingKeys: reports })], {
+      type: 'application/json',
+    });
+    const queued = navigator.sendBeacon(endpoint, body);
+    this.events.emit(
+      'missingKeysReported',
+      queued
+        ? { reports }
+        : { reports, error: new Error('[ContentStorage] sendBeacon was rejected') }
+    );
+  }
+
+  private handlePageHide = (): void => {
+    this.flushOnUnload();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.flushOnUnload();
+    }
+  };
+}
+
+/**
+ * Create a missing key collector
+ *
+ * @param options - Configuration options (uses missingKeys and debug)
+ * @param events - Optional emitter shared with other components
+ * @returns Collector instance (not attached or started)
+ */
+export function createContentstorageMissingKeyCollector(
+  options: ContentstorageVueI18nOptions = {},
+  events?: ContentstorageEventEmitter
+): ContentstorageMissingKeyCollector {
+  return new ContentstorageMissingKeyCollector(options, events);
+}
@@ -0,0 +1,432 @@
+import type { TranslationData } from './types';
+import { isPlainObject } from './utils';
+
+/**
+ * Set a value at a dot-notation key, creating nested objects as needed
+ * A later key wins over an earlier one that conflicts with it.
+ */
+function setNestedValue(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown
+): void {
+  const parts = key.split('.');
+  let current = target;
+
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(current[part])) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Parse a YAML document into translation data
+ *
+ * Supports the subset used for translation files: nested mappings, sequences,
+ * plain, single- and double-quoted scalars, block scalars (| and >) and
+ * comments. Scalars are read as strings; `~` and `null` are null. Flow
+ * collections, anchors, aliases and tags are rejected.
+ *
+ * @param source - YAML text
+ * @returns Parsed document
+ * @throws Error if the document is malformed or uses unsupported syntax
+ */
+export function parseYaml(source: string): unknown {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+
+  const fail = (message: string, line = index): never => {
+    throw new Error(`[ContentStorage] Invalid YAML at line ${line + 1}: ${message}`);
+  };
+
+  const isSkippable = (line: string): boolean =>
+    /^\s*(#.*)?$/.test(line) || /^(---|\.\.\.)(\s.*)?$/.test(line);
+
+  const indentOf = (line: string): number => {
+    const indent = (line.match(/^[ \t]*/) as RegExpMatchArray)[0];
+    if (indent.includes('\t')) {
+      fail('tabs are not allowed for indentation');
+    }
+    return indent.length;
+  };
+
+  /** Move to the next line with content and return its indent (-1 at the end) */
+  const peekIndent = (): number => {
+    while (index < lines.length && isSkippable(lines[index])) index++;
+    return index < lines.length ? indentOf(lines[index]) : -1;
+  };
+
+  const parseScalar = (text: string): unknown => {
+    const value = text.trim();
+
+    if (value.startsWith('"')) {
+      const match = value.match(/^"((?:[^"\\]|\\.)*)"\s*(#.*)?$/);
+      if (!match) fail('unterminated double-quoted string');
+      try {
+        return JSON.parse(`"${(match as RegExpMatchArray)[1]}"`);
+      } catch (e) {
+        return fail('invalid escape sequence');
+      }
+    }
+
+    if (value.startsWith("'")) {
+      const match = value.match(/^'((?:[^']|'')*)'\s*(#.*)?$/);
+      if (!match) fail('unterminated single-quoted string');
+      return (match as RegExpMatchArray)[1].replace(/''/g, "'");
+    }
+
+    // Read as plain strings, these would silently change the meaning of the document
+    if (/^[[{&*!]/.test(value)) {
+      fail(
+        `unsupported syntax "${value[0]}" (flow collections, anchors, aliases and tags)`
+      );
+    }
+
+    const plain = value.replace(/\s+#.*$/, '');
+    return plain === '~' || plain === 'null' || plain === '' ? null : plain;
+  };
+
+  const parseBlockScalar = (header: string, parentIndent: number): string => {
+    const folded = header.startsWith('>');
+    const chomping = header.slice(1);
+    const blockLines: string[] = [];
+    let blockIndent = -1;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (/^\s*$/.test(line)) {
+        blockLines.push('');
+        index++;
+        continue;
+      }
+
+      const indent = indentOf(line);
+      if (indent <= parentIndent) break;
+      if (blockIndent === -1) blockIndent = indent;
+      if (indent < blockIndent) fail('inconsistent indentation in block scalar');
+
+      blockLines.push(line.slice(blockIndent));
+      index++;
+    }
+
+    // Trailing blank lines are subject to chomping
+    let trailing = 0;
+    while (blockLines.length > 0 && blockLines[blockLines.length - 1] === '') {
+      blockLines.pop();
+      trailing++;
+    }
+
+    const text = folded
+      ? blockLines.reduce((result, line, i) => {
+          // Line breaks fold into spaces; each blank line becomes one newline
+          if (i === 0) return line;
+          if (line === '') return result + '\n';
+          return result + (blockLines[i - 1] === '' ? '' : ' ') + line;
+        }, '')
+      : blockLines.join('\n');
+
+    if (chomping === '-') return text;
+    if (chomping === '+') return text + '\n'.repeat(trailing + 1);
+    return text + '\n';
+  };
+
+  /** Parse a value given after "key:" or "- " on the same line */
+  const parseInlineValue = (rest: string, indent: number): unknown => {
+    const value = rest.replace(/^\s+/, '');
+
+    if (/^[|>][+-]?\s*(#.*)?$/.test(value)) {
+      index++;
+      return parseBlockScalar(value.replace(/\s*(#.*)?$/, ''), indent);
+    }
+
+    if (value === '' || value.startsWith('#')) {
+      index++;
+      const childIndent = peekIndent();
+      if (childIndent > indent) {
+        return parseNode(childIndent);
+      }
+      // A sequence may be indented at the same level as its key
+      if (childIndent === indent && /^-(\s|$)/.test(lines[index].trim())) {
+        return parseNode(childIndent);
+      }
+      return null;
+    }
+
+    let scalar = parseScalar(value);
+    index++;
+
+    // Plain scalars may continue on more-indented lines
+    if (typeof scalar === 'string' && !/^["']/.test(value)) {
+      while (peekIndent() > indent) {
+        if (/^[^\s#'"][^:]*:(\s|$)/.test(lines[index].trim())) {
+          fail('unexpected indentation');
+        }
+        scalar += ' ' + lines[index].trim();
+        index++;
+      }
+    }
+
+    return scalar;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+
+    while (peekIndent() === indent && /^-(\s|$)/.test(lines[index].slice(indent))) {
+      const rest = lines[index].slice(indent + 1);
+
+      // "- key: value" starts a mapping indented past the dash
+      if (
+        /^\s+[^\s#'"][^:]*:(\s|$)/.test(rest) ||
+        /^\s+(["']).*\1\s*:(\s|$)/.test(rest)
+      ) {
+        const itemIndent =
+          indent + 1 + (rest.match(/^\s+/) as RegExpMatchArray)[0].length;
+        lines[index] = ' '.repeat(itemIndent) + rest.trim();
+        items.push(parseNode(itemIndent));
+      } else {
+        items.push(parseInlineValue(rest, indent));
+      }
+    }
+
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+
+    while (peekIndent() === indent) {
+      const line = lines[index].slice(indent);
+      if (/^-(\s|$)/.test(line)) break;
+
+      const match = line.match(
+        /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"][^:]*?)\s*:(?:\s+(.*)|$)/
+      );
+      if (!match) fail('expected "key: value"');
+
+      const [, rawKey, rest = ''] = match as RegExpMatchArray;
+      const key = String(/^["']/.test(rawKey) ? parseScalar(rawKey) : rawKey.trim());
+      mapping[key] = parseInlineValue(rest, indent);
+    }
+
+    const next = peekIndent();
+    if (next > indent) {
+      fail('unexpected indentation');
+    }
+
+    return mapping;
+  };
+
+  function parseNode(indent: number): unknown {
+    return /^-(\s|$)/.test(lines[index].slice(indent))
+      ? parseSequence(indent)
+      : parseMapping(indent);
+  }
+
+  const rootIndent = peekIndent();
+  if (rootIndent === -1) return {};
+
+  const document = parseNode(rootIndent);
+  if (peekIndent() !== -1) {
+    fail('unexpected content');
+  }
+  return document;
+}
+
+/**
+ * Unescape a gettext string literal
+ */
+function unescapePoString(value: string): string {
+  const escapes: Record<string, string> = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '"': '"',
+    '\\': '\\',
+  };
+  return value.replace(/\\(.)/g, (_, char: string) => escapes[char] ?? char);
+}
+
+/**
+ * Parse a gettext PO file into translation data
+ *
+ * msgid is the message key (prefixed with "msgctxt." when a context is given);
+ * dots in keys create nested objects. Plural forms are joined with " | "
+ * (vue-i18n plural syntax). The header, fuzzy and untranslated entries are skipped.
+ *
+ * @param source - PO file content
+ * @returns Parsed translations
+ * @throws Error if a line cannot be parsed
+ */
+export function parsePo(source: string): TranslationData {
+  const result: Record<string, unknown> = {};
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+
+  let entry: { fields: Record<string, string>; fuzzy: boolean } = {
+    fields: {},
+    fuzzy: false,
+  };
+  let field: string | null = null;
+
+  const flush = () => {
+    const { fields, fuzzy } = entry;
+    entry = { fields: {}, fuzzy: false };
+    field = null;
+
+    const id = fields.msgid;
+    if (!id || fuzzy) return;
+
+    const forms =
+      fields.msgid_plural !== undefined
+        ? Object.keys(fields)
+            .filter((name) => /^msgstr\[\d+\]$/.test(name))
+            .sort((a, b) => parseInt(a.slice(7), 10) - parseInt(b.slice(7), 10))
+            .map((name) => fields[name])
+        : [fields.msgstr];
+
+    if (forms.every((form) => !form)) return;
+
+    const key = fields.msgctxt ? `${fields.msgctxt}.${id}` : id;
+    setNestedValue(result, key, forms.join(' | '));
+  };
+
+  lines.forEach((rawLine, lineIndex) => {
+    const line = rawLine.trim();
+
+    if (line === '') {
+      flush();
+      return;
+    }
+
+    if (line.startsWith('#')) {
+      if (line.startsWith('#,') && /\bfuzzy\b/.test(line)) {
+        entry.fuzzy = true;
+      }
+      return;
+    }
+
+    const keyword = line.match(
+      /^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+"(.*)"$/
+    );
+    if (keyword) {
+      // A new msgctxt/msgid after a msgstr starts the next entry
+      if (
+        (keyword[1] === 'msgid' || keyword[1] === 'msgctxt') &&
+        field?.startsWith('msgstr')
+      ) {
+        flush();
+      }
+      field = keyword[1];
+      entry.fields[field] = unescapePoString(keyword[2]);
+      return;
+    }
+
+    const continuation = line.match(/^"(.*)"$/);
+    if (continuation && field) {
+      entry.fields[field] += unescapePoString(continuation[1]);
+      return;
+    }
+
+    throw new Error(`[ContentStorage] Invalid PO file at line ${lineIndex + 1}: ${line}`);
+  });
+
+  flush();
+  return result as TranslationData;
+}
+
+/**
+ * Decode XML character and entity references
+ */
+function decodeXmlEntities(text: string): string {
+  const entities: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: "'",
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1].toLowerCase() === 'x'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return entities[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Read the text content of an XML fragment, keeping CDATA sections verbatim
+ */
+function readXmlText(xml: string): string {
+  const cdata = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let text = '';
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = cdata.exec(xml))) {
+    text += decodeXmlEntities(xml.slice(last, match.index)) + match[1];
+    last = cdata.lastIndex;
+  }
+
+  return text + decodeXmlEntities(xml.slice(last));
+}
+
+/**
+ * Read an attribute from an XML start tag's attribute string
+ */
+function readXmlAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(
+    new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`)
+  );
+  return match ? decodeXmlEntities(match[1] ?? match[2]) : undefined;
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.x file into translation data
+ *
+ * Each `<trans-unit>` (1.2) or `<unit>` (2.x) becomes a message keyed by its
+ * resname or id; dots in keys create nested objects. Targets are used as-is,
+ * including inline markup; units without a target are skipped.
+ *
+ * @param source - XLIFF document
+ * @returns Parsed translations
+ * @throws Error if the document has no xliff root element
+ */
+export function parseXliff(source: string): TranslationData {
+  if (!/<xliff\b/.test(source)) {
+    throw new Error('[ContentStorage] Invalid XLIFF: missing <xliff> root element');
+  }
+
+  const result: Record<string, unknown> = {};
+  const unitPattern = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  const targetPattern = /<target\b[^>]*>([\s\S]*?)<\/target>/g;
+  let unit: RegExpExecArray | null;
+
+  while ((unit = unitPattern.exec(source))) {
+    const [, , attributes, body] = unit;
+    const key =
+      readXmlAttribute(attributes, 'resname') || readXmlAttribute(attributes, 'id');
+    if (!key) continue;
+
+    // XLIFF 2.x units may split the message into several segments
+    const targets: string[] = [];
+    let target: RegExpExecArray | null;
+    targetPattern.lastIndex = 0;
+    while ((target = targetPattern.exec(body))) {
+      targets.push(readXmlText(target[1]));
+    }
+    if (targets.length === 0) continue;
+
+    setNestedValue(result, key, targets.join(''));
+  }
+
+  return result as TranslationData;
+}
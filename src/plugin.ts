@@ -1,12 +1,30 @@
+import { isRef, ref, type Ref } from 'vue';
 import { createI18n, I18n } from 'vue-i18n';
 import type {
   CreateContentstorageI18nOptions,
   ContentstorageVueI18nOptions,
+  ContentstorageEventHandler,
+  ContentstorageEventName,
+  ContentstorageState,
+  FallbackLoadResult,
+  FallbackLocaleConfig,
+  LanguageLoadResult,
   TranslationData,
+  TranslationSource,
+  TranslationUpdate,
 } from './types';
 import { ContentstorageTracker, createContentstorageTracker } from './tracker';
 import { ContentstorageLoader, createContentstorageLoader } from './loader';
-import { isBrowser } from './utils';
+import { ContentstorageEventEmitter } from './events';
+import { ContentstorageRefresher } from './refresh';
+import { ContentstorageMissingKeyCollector } from './missing';
+import {
+  deepMerge,
+  cloneMessages,
+  isBrowser,
+  resolveFallbackChain,
+  setCurrentLanguageCode,
+} from './utils';
 
 /**
  * Extended I18n instance with ContentStorage utilities
@@ -18,9 +36,76 @@ export interface ContentstorageI18n extends I18n {
   contentStorage: {
     /**
      * Load translations for a language from CDN and set them in vue-i18n
+     * Languages in its fallback chain (implicit parents like en-US → en, then
+     * fallbackLocale) are loaded as well and reported in `fallbacks`.
+     * If the same language is requested again before this load finishes,
+     * only the most recent call sets the messages.
+     * Falls back to bundled messages when the CDN fails (unless mergeStrategy is 'cdn-only').
      * @param language - Language code to load (e.g., 'en', 'es', 'fr')
+     * @param signal - Optional AbortSignal to cancel the load
+     * @returns Which source served the messages
      */
-    loadLanguage: (language: string) => Promise<void>;
+    loadLanguage: (language: string, signal?: AbortSignal) => Promise<LanguageLoadResult>;
+
+    /**
+     * Load a namespace bundle from CDN and merge it into a language's messages
+     * Messages are merged under the namespace as key prefix, so `title` in the
+     * `checkout` namespace is available as `$t('checkout.title')`.
+     * Requires a loadPath with a {{ns}} placeholder (or a loadPath function).
+     * @param language - Language code
+     * @param namespace - Namespace to load (e.g., 'checkout', 'admin')
+     * @param signal - Optional AbortSignal to cancel the load
+     */
+    loadNamespace: (
+      language: string,
+      namespace: string,
+      signal?: AbortSignal
+    ) => Promise<void>;
+
+    /**
+     * Load a language if needed and make it the active locale
+     * Namespaces loaded for other languages are loaded for this one as well.
+     * Works in both composition and legacy mode. Starting another switch
+     * cancels this one, which then resolves to false without changing the locale.
+     * @param language - Language code to switch to
+     * @returns true if the locale was switched, false if superseded by another switch
+     */
+    switchLocale: (language: string) => Promise<boolean>;
+
+    /**
+     * Whether a locale switch is in progress
+     */
+    loading: Ref<boolean>;
+
+    /**
+     * Error of the last failed locale switch (null if it succeeded)
+     */
+    error: Ref<Error | null>;
+
+    /**
+     * Languages whose messages have been set by the plugin
+     */
+    loadedLanguages: Ref<string[]>;
+
+    /**
+     * Get the source that last served messages for a language
+     * @param language - Language code
+     * @returns The source, or undefined if the language has not been loaded
+     */
+    getLanguageSource: (language: string) => TranslationSource | undefined;
+
+    /**
+     * Snapshot loaded translations for server-side rendering
+     * @returns Serializable state to pass to the client
+     */
+    dehydrate: () => ContentstorageState;
+
+    /**
+     * Restore state serialized on the server
+     * Primes the loader cache and sets messages without fetching.
+     * @param state - State returned by dehydrate() on the server
+     */
+    hydrate: (state: ContentstorageState) => void;
 
     /**
      * Whether the plugin is running in live editor mode
@@ -31,8 +116,13 @@ export interface ContentstorageI18n extends I18n {
      * Manually track messages (useful when loading translations from other sources)
      * @param messages - Translation messages object
      * @param language - Language code for these messages
+     * @param namespace - Optional namespace the messages belong to
      */
-    trackMessages: (messages: Record<string, unknown>, language: string) => void;
+    trackMessages: (
+      messages: Record<string, unknown>,
+      language: string,
+      namespace?: string
+    ) => void;
 
     /**
      * The underlying tracker instance
@@ -43,6 +133,51 @@ export interface ContentstorageI18n extends I18n {
      * The underlying loader instance (null if CDN loading not enabled)
      */
     loader: ContentstorageLoader | null;
+
+    /**
+     * Background refresher (null unless the refresh option is set and CDN
+     * loading is enabled)
+     */
+    refresher: ContentstorageRefresher | null;
+
+    /**
+     * Check loaded bundles for newer content now
+     * Changed messages are swapped into vue-i18n and reported with a
+     * contentUpdated event.
+     * @returns Updates for the bundles that changed
+     */
+    refresh: () => Promise<TranslationUpdate[]>;
+
+    /**
+     * Collector of missing keys (null unless the missingKeys option is set)
+     */
+    missingKeys: ContentstorageMissingKeyCollector | null;
+
+    /**
+     * Event emitter shared by the tracker and the loader
+     */
+    events: ContentstorageEventEmitter;
+
+    /**
+     * Register a lifecycle event handler
+     * @param event - Event name (e.g. 'loadError', 'tracked')
+     * @param handler - Handler called with the event payload
+     * @returns Function that removes the handler
+     */
+    on: <K extends ContentstorageEventName>(
+      event: K,
+      handler: ContentstorageEventHandler<K>
+    ) => () => void;
+
+    /**
+     * Remove a lifecycle event handler
+     * @param event - Event name
+     * @param handler - Handler previously passed to on()
+     */
+    off: <K extends ContentstorageEventName>(
+      event: K,
+      handler: ContentstorageEventHandler<K>
+    ) => void;
   };
 }
 
@@ -84,6 +219,70 @@ export interface ContentstorageI18n extends I18n {
  * await i18n.contentStorage.loadLanguage('fr');
  * ```
  *
+ * @example With namespaces loaded on demand
+ * ```typescript
+ * const i18n = createContentstorageI18n({
+ *   loadPath: 'https://cdn.example.com/{{lng}}/{{ns}}.json',
+ *   enableCdnLoading: true,
+ *   locale: 'en',
+ * });
+ *
+ * // Available as $t('checkout.title')
+ * await i18n.contentStorage.loadNamespace('en', 'checkout');
+ * ```
+ *
+ * @example With bundled fallback messages
+ * ```typescript
+ * import en from './locales/en.json';
+ *
+ * const i18n = createContentstorageI18n({
+ *   contentKey: 'your-content-key',
+ *   bundledMessages: { en },
+ *   mergeStrategy: 'merge', // CDN messages override bundled ones
+ *   preloadLanguages: ['en'],
+ *   locale: 'en',
+ * });
+ * ```
+ *
+ * @example Observing lifecycle events
+ * ```typescript
+ * const i18n = createContentstorageI18n({
+ *   contentKey: 'your-content-key',
+ *   hooks: {
+ *     loadError: ({ language, error }) => reportError(error, { language }),
+ *   },
+ * });
+ *
+ * i18n.contentStorage.on('loadSuccess', ({ language, duration }) => {
+ *   metrics.timing(`translations.${language}`, duration);
+ * });
+ * ```
+ *
+ * @example Server-side rendering
+ * ```typescript
+ * // server
+ * const i18n = createContentstorageI18n({ contentKey: 'your-content-key', locale });
+ * const state = await loadContentstorageState(i18n, [locale]);
+ * html += renderContentstorageStateScript(state);
+ *
+ * // client
+ * const i18n = createContentstorageI18n({
+ *   contentKey: 'your-content-key',
+ *   initialState: getContentstorageInitialState(),
+ * });
+ * ```
+ *
+ * @example With a persistent cache (stale-while-revalidate)
+ * ```typescript
+ * const i18n = createContentstorageI18n({
+ *   contentKey: 'your-content-key',
+ *   persistentCache: 'localStorage',
+ *   persistentCacheTtl: 24 * 60 * 60 * 1000,
+ *   preloadLanguages: ['en'],
+ *   locale: 'en',
+ * });
+ * ```
+ *
  * @param options - Combined ContentStorage and vue-i18n options
  * @returns Extended I18n instance with ContentStorage utilities
  */
@@ -96,12 +295,37 @@ export function createContentstorageI18n(
     debug,
     maxMemoryMapSize,
     loadPath,
+    contentSources,
+    preview,
+    importTranslations,
     request,
+    requestTimeout,
+    localeMapping,
     liveEditorParam,
     forceLiveMode,
     customLiveEditorScriptUrl,
+    liveEditorScriptIntegrity,
+    liveEditorScriptCrossOrigin,
+    cspNonce,
+    trustedTypesPolicy,
     preloadLanguages,
     enableCdnLoading,
+    persistentCache,
+    persistentCacheTtl,
+    memoryCache,
+    refresh,
+    missingKeys,
+    retry,
+    mirrorUrls,
+    bundledMessages,
+    mergeStrategy = 'merge',
+    formats,
+    messageSyntax,
+    transformers,
+    validation,
+    integrity,
+    hooks,
+    initialState,
     ...vueI18nOptions
   } = options;
 
@@ -111,41 +335,481 @@ export function createContentstorageI18n(
     debug,
     maxMemoryMapSize,
     loadPath,
+    contentSources,
+    preview,
+    importTranslations,
     request,
+    requestTimeout,
+    localeMapping,
     liveEditorParam,
     forceLiveMode,
     customLiveEditorScriptUrl,
+    liveEditorScriptIntegrity,
+    liveEditorScriptCrossOrigin,
+    cspNonce,
+    trustedTypesPolicy,
     preloadLanguages,
     enableCdnLoading,
+    persistentCache,
+    persistentCacheTtl,
+    memoryCache,
+    refresh,
+    missingKeys,
+    retry,
+    mirrorUrls,
+    bundledMessages,
+    mergeStrategy,
+    formats,
+    messageSyntax,
+    transformers,
+    validation,
+    integrity,
+    hooks,
   };
 
+  // Bundled messages render until CDN translations arrive
+  const useBundled = !!bundledMessages && mergeStrategy !== 'cdn-only';
+  const initialMessages = useBundled
+    ? {
+        ...cloneMessages(bundledMessages),
+        ...(vueI18nOptions.messages as Record<string, unknown>),
+      }
+    : vueI18nOptions.messages;
+
   // Create the vue-i18n instance
   // Default to composition API mode (legacy: false) for better tracking support
   const i18n = createI18n({
     legacy: false,
     globalInjection: true,
     ...vueI18nOptions,
+    ...(initialMessages && {
+      messages: initialMessages as typeof vueI18nOptions.messages,
+    }),
   }) as ContentstorageI18n;
 
+  // Shared emitter, so handlers see both tracker and loader events
+  const events = new ContentstorageEventEmitter(hooks);
+
   // Create the tracker
-  const tracker = createContentstorageTracker(contentStorageOptions);
+  const tracker = createContentstorageTracker(contentStorageOptions, events);
 
-  // Create the loader if CDN loading is enabled or contentKey is provided
+  // Create the loader if CDN loading is enabled, or a content key, source or import is provided
   const loader =
-    enableCdnLoading || contentKey
-      ? createContentstorageLoader(contentStorageOptions)
+    enableCdnLoading || contentKey || contentSources?.length || importTranslations
+      ? createContentstorageLoader(contentStorageOptions, events)
       : null;
 
+  // Record which source each tracked key came from
+  if (loader && contentSources?.length) {
+    tracker.setKeySourceResolver((language, key, namespace) =>
+      loader.getKeySource(language, key, namespace)
+    );
+  }
+
+  // Editors preview drafts; reload them whenever the editor saves
+  const hasPreview = !!preview || !!contentSources?.some((source) => source.preview);
+  if (loader && hasPreview && tracker.inLiveMode) {
+    loader.setPreviewMode(true);
+
+    if (preview?.reloadOnSave !== false) {
+      events.on('editorSaved', () => {
+        loader.refreshAll();
+      });
+    }
+  }
+
+  // Poll for newly published content; updates arrive through loader.onUpdate()
+  const refresher =
+    loader && refresh ? new ContentstorageRefresher(loader, contentStorageOptions) : null;
+
   // Attach the tracker to the i18n instance
   tracker.attach(i18n);
 
+  // Report keys the UI requests that the messages do not have
+  const missingKeyCollector = missingKeys
+    ? new ContentstorageMissingKeyCollector(contentStorageOptions, events)
+    : null;
+  missingKeyCollector?.attach(i18n);
+
+  /**
+   * Get the vue-i18n global instance's message API
+   */
+  const getMessageApi = () => {
+    const global = (i18n as I18n).global;
+    if (global && 'setLocaleMessage' in global) {
+      return global as {
+        setLocaleMessage: (locale: string, messages: TranslationData) => void;
+        mergeLocaleMessage?: (locale: string, messages: TranslationData) => void;
+        getLocaleMessage?: (locale: string) => TranslationData;
+      };
+    }
+    throw new Error('[ContentStorage] Could not access vue-i18n global instance');
+  };
+
+  /**
+   * Get bundled messages for a language, unless the strategy ignores them
+   */
+  const getBundled = (language: string): TranslationData | undefined =>
+    useBundled ? bundledMessages?.[language] : undefined;
+
+  // Source that last served each language
+  const sources = new Map<string, TranslationSource>();
+
+  // Namespace bundles loaded per language, re-merged whenever a language is set
+  const namespaceMessages = new Map<string, Map<string, TranslationData>>();
+  const loadedNamespaces = new Set<string>();
+
+  // Reactive state for UI (loading indicators, error messages, language pickers)
+  const loading = ref(false);
+  const error = ref<Error | null>(null);
+  const loadedLanguages = ref<string[]>([]);
+
+  // Controller of the locale switch in progress, aborted when a newer switch starts
+  let switchController: AbortController | null = null;
+
+  /**
+   * Get the fallbackLocale configuration from the global instance
+   */
+  const getFallbackLocale = (): FallbackLocaleConfig | undefined => {
+    const { fallbackLocale } = (i18n as I18n).global as unknown as {
+      fallbackLocale?: FallbackLocaleConfig | Ref<FallbackLocaleConfig>;
+    };
+    return isRef(fallbackLocale) ? fallbackLocale.value : fallbackLocale;
+  };
+
+  /**
+   * Get the active locale of the global instance (composition or legacy mode)
+   */
+  const getLocale = (): string => {
+    const { locale } = (i18n as I18n).global as unknown as {
+      locale: string | { value: string };
+    };
+    return typeof locale === 'object' && locale !== null ? locale.value : locale;
+  };
+
+  /**
+   * Set the active locale on the global instance (composition or legacy mode)
+   */
+  const setLocale = (language: string): void => {
+    const global = (i18n as I18n).global as unknown as {
+      locale: string | { value: string };
+    };
+    if (typeof global.locale === 'object' && global.locale !== null) {
+      global.locale.value = language;
+    } else {
+      global.locale = language;
+    }
+    setCurrentLanguageCode(tracker.toLanguageCode(language));
+  };
+
+  /**
+   * Merge a namespace bundle into a language's messages under the namespace prefix
+   */
+  const mergeNamespace = (
+    language: string,
+    namespace: string,
+    translations: TranslationData
+  ): void => {
+    const api = getMessageApi();
+    const prefixed = { [namespace]: translations };
+
+    if (api.mergeLocaleMessage) {
+      api.mergeLocaleMessage(language, prefixed);
+    } else {
+      api.setLocaleMessage(
+        language,
+        deepMerge(api.getLocaleMessage?.(language) || {}, prefixed)
+      );
+    }
+  };
+
+  /**
+   * Set a namespace bundle in vue-i18n and track it
+   */
+  const applyNamespace = (
+    language: string,
+    namespace: string,
+    translations: TranslationData
+  ): void => {
+    let namespaces = namespaceMessages.get(language);
+    if (!namespaces) {
+      namespaces = new Map();
+      namespaceMessages.set(language, namespaces);
+    }
+    namespaces.set(namespace, translations);
+    loadedNamespaces.add(namespace);
+
+    mergeNamespace(language, namespace, translations);
+    tracker.trackMessages(translations, language, namespace);
+  };
+
+  /**
+   * Set messages in vue-i18n according to the merge strategy and track them
+   *
+   * @param language - Language code
+   * @param translations - CDN translations, or null to use bundled messages only
+   * @returns Source that served the messages
+   */
+  const applyMessages = (
+    language: string,
+    translations: TranslationData | null
+  ): TranslationSource => {
+    const api = getMessageApi();
+    const bundled = getBundled(language);
+    let source: TranslationSource;
+    let messages: TranslationData;
+
+    if (translations && bundled) {
+      // Replaces the previous messages, so keys removed from the CDN bundle don't linger
+      messages = deepMerge(bundled, translations);
+      source = 'merged';
+    } else if (translations) {
+      messages = translations;
+      source = 'cdn';
+    } else if (bundled) {
+      messages = bundled;
+      source = 'bundled';
+    } else {
+      throw new Error(`[ContentStorage] No messages available for ${language}`);
+    }
+
+    // vue-i18n keeps the object it is given and merges namespaces into it in
+    // place, so it gets a copy: bundled messages and cached bundles stay as loaded
+    api.setLocaleMessage(language, cloneMessages(messages));
+
+    // setLocaleMessage replaced the namespaces merged into this language
+    namespaceMessages
+      .get(language)
+      ?.forEach((namespaced, namespace) =>
+        mergeNamespace(language, namespace, namespaced)
+      );
+
+    // Track the loaded messages
+    tracker.trackMessages(messages, language);
+    sources.set(language, source);
+    if (!loadedLanguages.value.includes(language)) {
+      loadedLanguages.value = [...loadedLanguages.value, language];
+    }
+
+    return source;
+  };
+
+  // Latest load call per language (or "language:namespace"), so stale responses
+  // don't overwrite newer ones
+  const loadTokens = new Map<string, number>();
+
+  /**
+   * Start a new load for a bundle, superseding pending ones
+   * @returns Token to compare with loadTokens once the load finishes
+   */
+  const nextLoadToken = (bundle: string): number => {
+    const token = (loadTokens.get(bundle) || 0) + 1;
+    loadTokens.set(bundle, token);
+    return token;
+  };
+
+  // Swap in newer content found by revalidation of persisted bundles or refresh
+  if (loader) {
+    loader.onUpdate((language, translations, namespace) => {
+      // Newer than any load still pending for this bundle
+      if (namespace) {
+        nextLoadToken(`${language}:${namespace}`);
+        applyNamespace(language, namespace, translations);
+      } else {
+        nextLoadToken(language);
+        applyMessages(language, translations);
+      }
+
+      if (debug) {
+        console.log(
+          `[ContentStorage] Updated messages for ${namespace ? `${language}:${namespace}` : language} with newer content`
+        );
+      }
+    });
+  }
+
+  /**
+   * Remove a language evicted from the loader cache from vue-i18n
+   * The active locale and its fallbacks are kept; bundled messages are restored.
+   */
+  const evictLanguage = (language: string): void => {
+    const active = getLocale();
+    if (
+      language === active ||
+      resolveFallbackChain(active, getFallbackLocale()).includes(language) ||
+      (!sources.has(language) && !namespaceMessages.has(language))
+    ) {
+      return;
+    }
+
+    getMessageApi().setLocaleMessage(language, cloneMessages(getBundled(language) || {}));
+    sources.delete(language);
+    namespaceMessages.delete(language);
+    loadedLanguages.value = loadedLanguages.value.filter((loaded) => loaded !== language);
+
+    if (debug) {
+      console.log(`[ContentStorage] Removed evicted messages for ${language}`);
+    }
+  };
+
+  // Free vue-i18n memory once a language has nothing left in the loader cache
+  if (loader && memoryCache && memoryCache.evictMessages !== false) {
+    events.on('cacheEvicted', ({ language }) => {
+      if (
+        !loader.isCached(language) &&
+        loader.getCachedNamespaces(language).length === 0
+      ) {
+        evictLanguage(language);
+      }
+    });
+  }
+
+  /**
+   * Whether language bundles are loaded from the CDN
+   */
+  const hasCdnLanguageBundles = (): boolean =>
+    !!loader && mergeStrategy !== 'bundled-only' && loader.hasLanguageBundles;
+
+  /**
+   * Load a single language from CDN (or bundled messages) and set its messages
+   */
+  const loadLanguageBundle = async (
+    language: string,
+    signal?: AbortSignal
+  ): Promise<LanguageLoadResult> => {
+    const bundled = getBundled(language);
+
+    // Without language bundles (a {{ns}} loadPath), bundled messages are all there is
+    if (
+      !loader ||
+      mergeStrategy === 'bundled-only' ||
+      (!loader.hasLanguageBundles && bundled)
+    ) {
+      if (bundled) {
+        return { language, source: applyMessages(language, null) };
+      }
+      if (!loader) {
+        throw new Error(
+          '[ContentStorage] CDN loading not enabled. ' +
+            'Set contentKey or enableCdnLoading option to enable.'
+        );
+      }
+      throw new Error(`[ContentStorage] No bundled messages for ${language}`);
+    }
+
+    const token = nextLoadToken(language);
+
+    // Load translations from CDN
+    let translations: TranslationData | null;
+    let error: unknown;
+    try {
+      translations = await loader.loadTranslations(language, signal);
+    } catch (err) {
+      const aborted = err instanceof Error && err.name === 'AbortError';
+      if (!bundled || aborted) {
+        throw err;
+      }
+
+      if (debug) {
+        console.warn(
+          `[ContentStorage] Failed to load ${language} from CDN, using bundled messages:`,
+          err
+        );
+      }
+      translations = null;
+      error = err;
+    }
+
+    if (loadTokens.get(language) !== token) {
+      if (debug) {
+        console.log(`[ContentStorage] Skipping stale load result for ${language}`);
+      }
+      const source = translations ? (bundled ? 'merged' : 'cdn') : 'bundled';
+      return { language, source, ...(error !== undefined && { error }) };
+    }
+
+    // Set messages in vue-i18n
+    const source = applyMessages(language, translations);
+
+    if (debug) {
+      console.log(`[ContentStorage] Loaded and set messages for ${language} (${source})`);
+    }
+
+    return { language, source, ...(error !== undefined && { error }) };
+  };
+
+  /**
+   * Load one step of a fallback chain, reporting failures instead of throwing
+   */
+  const loadFallback = async (
+    language: string,
+    signal?: AbortSignal
+  ): Promise<FallbackLoadResult> => {
+    const loadedSource = sources.get(language);
+    if (loadedSource) {
+      return { language, source: loadedSource };
+    }
+
+    try {
+      const { source, error } = await loadLanguageBundle(language, signal);
+      return { language, source, ...(error !== undefined && { error }) };
+    } catch (error) {
+      if (debug) {
+        console.warn(
+          `[ContentStorage] Failed to load fallback language ${language}:`,
+          error
+        );
+      }
+      return { language, error };
+    }
+  };
+
   // Add ContentStorage utilities to the i18n instance
   i18n.contentStorage = {
     isLiveMode: tracker.inLiveMode,
+    loading,
+    error,
+    loadedLanguages,
     tracker,
     loader,
+    refresher,
+    missingKeys: missingKeyCollector,
+    events,
+    on: (event, handler) => events.on(event, handler),
+
+    refresh(): Promise<TranslationUpdate[]> {
+      if (refresher) {
+        return refresher.refresh();
+      }
+      return loader ? loader.refreshAll() : Promise.resolve([]);
+    },
+    off: (event, handler) => events.off(event, handler),
+
+    async loadLanguage(
+      language: string,
+      signal?: AbortSignal
+    ): Promise<LanguageLoadResult> {
+      // Bundles vue-i18n falls back to, skipping those with no possible source
+      const fallbacks = resolveFallbackChain(language, getFallbackLocale()).filter(
+        (fallback) => hasCdnLanguageBundles() || getBundled(fallback)
+      );
+
+      // Load the whole chain in parallel; fallback failures don't fail the load
+      const fallbackResults = Promise.all(
+        fallbacks.map((fallback) => loadFallback(fallback, signal))
+      );
+      const result = await loadLanguageBundle(language, signal);
 
-    async loadLanguage(language: string): Promise<void> {
+      return fallbacks.length > 0
+        ? { ...result, fallbacks: await fallbackResults }
+        : result;
+    },
+
+    async loadNamespace(
+      language: string,
+      namespace: string,
+      signal?: AbortSignal
+    ): Promise<void> {
       if (!loader) {
         throw new Error(
           '[ContentStorage] CDN loading not enabled. ' +
@@ -153,36 +817,155 @@ export function createContentstorageI18n(
         );
       }
 
-      // Load translations from CDN
-      const translations = await loader.loadTranslations(language);
+      const bundle = `${language}:${namespace}`;
+      const token = nextLoadToken(bundle);
+      const translations = await loader.loadNamespace(language, namespace, signal);
 
-      // Set messages in vue-i18n
-      const global = (i18n as I18n).global;
-      if (global && 'setLocaleMessage' in global) {
-        (
-          global as {
-            setLocaleMessage: (locale: string, messages: TranslationData) => void;
-          }
-        ).setLocaleMessage(language, translations);
+      if (loadTokens.get(bundle) !== token) {
+        if (debug) {
+          console.log(`[ContentStorage] Skipping stale load result for ${bundle}`);
+        }
+        return;
+      }
+
+      applyNamespace(language, namespace, translations);
+
+      if (debug) {
+        console.log(`[ContentStorage] Loaded and merged namespace ${bundle}`);
+      }
+    },
+
+    getLanguageSource(language: string): TranslationSource | undefined {
+      return sources.get(language);
+    },
+
+    dehydrate(): ContentstorageState {
+      const state: ContentstorageState = {
+        translations: loader ? loader.getCacheSnapshot() : {},
+        sources: {},
+      };
+      sources.forEach((source, language) => {
+        state.sources[language] = source;
+      });
+
+      const namespaces = loader ? loader.getNamespaceCacheSnapshot() : {};
+      if (Object.keys(namespaces).length > 0) {
+        state.namespaces = namespaces;
+      }
+      return state;
+    },
+
+    hydrate(state: ContentstorageState): void {
+      const languages = new Set([
+        ...Object.keys(state.translations || {}),
+        ...Object.keys(state.sources || {}),
+      ]);
+
+      languages.forEach((language) => {
+        const translations =
+          state.sources?.[language] === 'bundled'
+            ? null
+            : state.translations?.[language] || null;
+
+        if (translations && loader) {
+          loader.primeCache(language, translations);
+        }
+
+        if (translations || getBundled(language)) {
+          applyMessages(language, translations);
+        }
+      });
+
+      // Namespaces are merged into the language messages set above
+      Object.entries(state.namespaces || {}).forEach(([language, namespaces]) => {
+        Object.entries(namespaces).forEach(([namespace, translations]) => {
+          loader?.primeCache(language, translations, namespace);
+          applyNamespace(language, namespace, translations);
+        });
+        languages.add(language);
+      });
+
+      if (debug) {
+        console.log('[ContentStorage] Hydrated state for:', Array.from(languages));
+      }
+    },
+
+    async switchLocale(language: string): Promise<boolean> {
+      // Cancel a switch that is still loading
+      switchController?.abort();
+      const controller = new AbortController();
+      switchController = controller;
+
+      loading.value = true;
+      error.value = null;
 
-        // Track the loaded messages
-        tracker.trackMessages(translations, language);
+      try {
+        // Namespace-only setups have no language bundle to load
+        if (
+          !sources.has(language) &&
+          ((loader && loader.hasLanguageBundles) || getBundled(language))
+        ) {
+          await i18n.contentStorage.loadLanguage(language, controller.signal);
+        }
+
+        // Keep namespaces that were loaded on demand available after the switch
+        const loaded = namespaceMessages.get(language);
+        const missing = Array.from(loadedNamespaces).filter((ns) => !loaded?.has(ns));
+        if (loader && missing.length > 0) {
+          await Promise.all(
+            missing.map((namespace) =>
+              i18n.contentStorage.loadNamespace(language, namespace, controller.signal)
+            )
+          );
+        }
+
+        if (controller.signal.aborted) {
+          return false;
+        }
+
+        setLocale(language);
 
         if (debug) {
-          console.log(`[ContentStorage] Loaded and set messages for ${language}`);
+          console.log(`[ContentStorage] Switched locale to ${language}`);
+        }
+
+        return true;
+      } catch (err) {
+        if (controller.signal.aborted) {
+          return false;
+        }
+
+        error.value = err instanceof Error ? err : new Error(String(err));
+        throw err;
+      } finally {
+        if (switchController === controller) {
+          switchController = null;
+          loading.value = false;
         }
-      } else {
-        throw new Error('[ContentStorage] Could not access vue-i18n global instance');
       }
     },
 
-    trackMessages(messages: Record<string, unknown>, language: string): void {
-      tracker.trackMessages(messages, language);
+    trackMessages(
+      messages: Record<string, unknown>,
+      language: string,
+      namespace?: string
+    ): void {
+      tracker.trackMessages(messages, language, namespace);
     },
   };
 
+  // Restore server-rendered state before preloading, so nothing is fetched twice
+  if (initialState) {
+    i18n.contentStorage.hydrate(initialState);
+  }
+
   // Preload languages if specified
-  if (preloadLanguages && preloadLanguages.length > 0 && isBrowser() && loader) {
+  if (
+    preloadLanguages &&
+    preloadLanguages.length > 0 &&
+    isBrowser() &&
+    (loader || useBundled)
+  ) {
     // Load preloadLanguages asynchronously (don't block initialization)
     Promise.all(
       preloadLanguages.map((lang) =>
@@ -199,6 +982,12 @@ export function createContentstorageI18n(
     });
   }
 
+  // Start polling for newer content (browser only)
+  refresher?.start();
+
+  // Send pending missing keys when the page is hidden (browser only)
+  missingKeyCollector?.start();
+
   return i18n;
 }
 
@@ -0,0 +1,209 @@
+import type {
+  ContentstorageVueI18nOptions,
+  RefreshOptions,
+  TranslationUpdate,
+} from './types';
+import type { ContentstorageLoader } from './loader';
+import { isBrowser } from './utils';
+
+/**
+ * Refresh options with every field resolved
+ */
+type ResolvedRefreshOptions = Required<RefreshOptions>;
+
+/**
+ * Default refresh options: every 5 minutes and on focus, backing off to
+ * hourly checks while the page is hidden
+ */
+export const DEFAULT_REFRESH_OPTIONS: ResolvedRefreshOptions = {
+  interval: 5 * 60 * 1000,
+  onFocus: true,
+  hiddenBackoff: 2,
+  maxInterval: 60 * 60 * 1000,
+};
+
+/**
+ * Minimum time between checks triggered by focus or visibility changes
+ */
+const FOCUS_REFRESH_THROTTLE = 30 * 1000;
+
+/**
+ * Background refresh of loaded bundles
+ *
+ * Periodically asks the loader to check every cached bundle for newer
+ * content, and optionally does so when the window regains focus. While the
+ * page is hidden, the interval grows by hiddenBackoff after each check (up to
+ * maxInterval) and is reset once the page is visible again.
+ *
+ * @example
+ * ```typescript
+ * const refresher = new ContentstorageRefresher(loader, {
+ *   refresh: { interval: 60_000 },
+ * });
+ * refresher.start();
+ * ```
+ */
+export class ContentstorageRefresher {
+  private loader: ContentstorageLoader;
+  private options: ResolvedRefreshOptions;
+  private debug: boolean;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private delay: number;
+  private lastCheck = 0;
+  private pending: Promise<TranslationUpdate[]> | null = null;
+  private running = false;
+
+  /**
+   * @param loader - Loader whose cached bundles are refreshed
+   * @param options - Configuration options (uses refresh and debug)
+   */
+  constructor(loader: ContentstorageLoader, options: ContentstorageVueI18nOptions = {}) {
+    this.loader = loader;
+    this.debug = options.debug || false;
+    this.options = { ...DEFAULT_REFRESH_OPTIONS };
+    if (typeof options.refresh === 'object') {
+      for (const key of Object.keys(options.refresh) as Array<keyof RefreshOptions>) {
+        if (options.refresh[key] !== undefined) {
+          (this.options as Record<string, unknown>)[key] = options.refresh[key];
+        }
+      }
+    }
+    this.delay = this.options.interval;
+  }
+
+  /**
+   * Whether periodic checks are scheduled
+   */
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start periodic checks (no-op outside the browser or if already started)
+   */
+  start(): void {
+    if (this.running || !isBrowser()) return;
+
+    this.running = true;
+    this.lastCheck = Date.now();
+    this.delay = this.options.interval;
+    this.schedule();
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    if (this.options.onFocus) {
+      window.addEventListener('focus', this.handleFocus);
+    }
+
+    if (this.debug) {
+      console.log(
+        `[ContentStorage] Background refresh started (every ${this.options.interval}ms)`
+      );
+    }
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  stop(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    this.clearTimer();
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('focus', this.handleFocus);
+
+    if (this.debug) {
+      console.log('[ContentStorage] Background refresh stopped');
+    }
+  }
+
+  /**
+   * Check every cached bundle now and restart the interval
+   * A check already in progress is shared.
+   *
+   * @returns Updates for the bundles that changed
+   */
+  refresh(): Promise<TranslationUpdate[]> {
+    if (this.pending) {
+      return this.pending;
+    }
+
+    this.clearTimer();
+    this.lastCheck = Date.now();
+
+    this.pending = this.loader.refreshAll().finally(() => {
+      this.pending = null;
+      this.delay = this.isHidden()
+        ? Math.min(this.delay * this.options.hiddenBackoff, this.options.maxInterval)
+        : this.options.interval;
+      this.schedule();
+    });
+
+    return this.pending;
+  }
+
+  /**
+   * Schedule the next periodic check
+   */
+  private schedule(): void {
+    if (!this.running) return;
+
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refresh();
+    }, this.delay);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private isHidden(): boolean {
+    return typeof document !== 'undefined' && document.hidden;
+  }
+
+  /**
+   * Check now unless a check happened within the focus throttle
+   */
+  private refreshIfStale(): void {
+    if (Date.now() - this.lastCheck >= FOCUS_REFRESH_THROTTLE) {
+      this.refresh();
+    }
+  }
+
+  private handleFocus = (): void => {
+    this.refreshIfStale();
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (this.isHidden()) return;
+
+    // Back to the regular interval once the page is visible again
+    if (this.delay !== this.options.interval) {
+      this.delay = this.options.interval;
+      this.schedule();
+    }
+
+    if (this.options.onFocus) {
+      this.refreshIfStale();
+    }
+  };
+}
+
+/**
+ * Create a refresher for a loader
+ *
+ * @param loader - Loader whose cached bundles are refreshed
+ * @param options - Configuration options (uses refresh and debug)
+ * @returns Refresher instance (not started)
+ */
+export function createContentstorageRefresher(
+  loader: ContentstorageLoader,
+  options: ContentstorageVueI18nOptions = {}
+): ContentstorageRefresher {
+  return new ContentstorageRefresher(loader, options);
+}
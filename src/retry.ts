@@ -0,0 +1,119 @@
+import type { RetryPolicy } from './types';
+
+/**
+ * Retry policy with every field resolved
+ */
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+/**
+ * Default retry policy for translation requests
+ * A single attempt, so retrying is opt-in.
+ */
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  attempts: 1,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: 0.5,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Default retry policy for the live editor script
+ * Two attempts, 3 seconds apart.
+ */
+export const DEFAULT_SCRIPT_RETRY_POLICY: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  attempts: 2,
+  baseDelay: 3000,
+  factor: 1,
+  jitter: 0,
+};
+
+/**
+ * Merge a user-provided retry policy with defaults
+ *
+ * @param policy - Partial policy from options
+ * @param defaults - Defaults for the caller
+ * @returns Fully resolved policy
+ */
+export function resolveRetryPolicy(
+  policy: RetryPolicy | undefined,
+  defaults: ResolvedRetryPolicy = DEFAULT_RETRY_POLICY
+): ResolvedRetryPolicy {
+  const resolved = { ...defaults };
+  if (!policy) return resolved;
+
+  for (const key of Object.keys(policy) as Array<keyof RetryPolicy>) {
+    if (policy[key] !== undefined) {
+      (resolved as Record<string, unknown>)[key] = policy[key];
+    }
+  }
+
+  resolved.attempts = Math.max(1, Math.floor(resolved.attempts));
+  return resolved;
+}
+
+/**
+ * Compute the delay before a retry using exponential backoff with jitter
+ *
+ * @param policy - Resolved retry policy
+ * @param retry - Retry number (1 for the first retry)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(policy: ResolvedRetryPolicy, retry: number): number {
+  const delay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(policy.factor, retry - 1)
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+
+  return Math.round(delay - Math.random() * jitter * delay);
+}
+
+/**
+ * Check if a failed request should be retried
+ * Errors without an HTTP status (network errors, timeouts) are always retryable.
+ *
+ * @param policy - Resolved retry policy
+ * @param error - The error thrown by the request
+ * @returns true if the request may be retried
+ */
+export function isRetryableError(policy: ResolvedRetryPolicy, error: unknown): boolean {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return false;
+  }
+
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return policy.retryableStatuses.includes(status);
+  }
+
+  return true;
+}
+
+/**
+ * Wait for a delay, resolving early if the signal is aborted
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional AbortSignal
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,92 @@
+import type { ContentSource, TranslationData } from './types';
+import { deepMerge, flattenTranslations } from './utils';
+
+/**
+ * A source's bundle for one language or namespace
+ */
+export interface SourceBundle {
+  source: ContentSource;
+  translations: TranslationData;
+}
+
+/**
+ * Result of merging the bundles of several sources
+ */
+export interface MergedSourceBundles {
+  /** Deep-merged translations */
+  translations: TranslationData;
+  /** Name of the source that provided each (dotted) key */
+  keySources: Map<string, string>;
+}
+
+/**
+ * Check a source list and order it for merging
+ * Sources are sorted by ascending priority, keeping list order for equal
+ * priorities, so later sources in the result override earlier ones.
+ *
+ * @param sources - Configured sources
+ * @returns Sources in merge order
+ * @throws Error if a source has no name, a duplicate name, or nothing to load from
+ */
+export function sortContentSources(sources: ContentSource[]): ContentSource[] {
+  const names = new Set<string>();
+
+  for (const source of sources) {
+    if (!source.name) {
+      throw new Error('[ContentStorage] Every content source needs a name');
+    }
+    if (names.has(source.name)) {
+      throw new Error(`[ContentStorage] Duplicate content source name "${source.name}"`);
+    }
+    if (!source.contentKey && !source.loadPath) {
+      throw new Error(
+        `[ContentStorage] Content source "${source.name}" needs a contentKey or a loadPath`
+      );
+    }
+    names.add(source.name);
+  }
+
+  // Array.prototype.sort is stable, so equal priorities keep their list order
+  return sources.slice().sort((a, b) => (a.priority || 0) - (b.priority || 0));
+}
+
+/**
+ * Nest translations under a dotted key prefix
+ *
+ * @param translations - Translation data
+ * @param prefix - Prefix such as 'ds' or 'ui.ds'
+ * @returns Translations nested under the prefix
+ */
+export function applySourcePrefix(
+  translations: TranslationData,
+  prefix?: string
+): TranslationData {
+  if (!prefix) {
+    return translations;
+  }
+  return prefix
+    .split('.')
+    .reduceRight<TranslationData>((nested, part) => ({ [part]: nested }), translations);
+}
+
+/**
+ * Deep-merge source bundles and record which source provided each key
+ *
+ * @param bundles - Bundles in merge order (later bundles override earlier ones)
+ * @returns Merged translations and the source of each key
+ */
+export function mergeSourceBundles(bundles: SourceBundle[]): MergedSourceBundles {
+  let translations: TranslationData = {};
+  const keySources = new Map<string, string>();
+
+  for (const { source, translations: bundle } of bundles) {
+    const prefixed = applySourcePrefix(bundle, source.prefix);
+    translations = deepMerge(translations, prefixed);
+
+    for (const [key] of flattenTranslations(prefixed)) {
+      keySources.set(key, source.name);
+    }
+  }
+
+  return { translations, keySources };
+}
@@ -0,0 +1,78 @@
+import type { ContentstorageI18n } from './plugin';
+import type { ContentstorageState } from './types';
+import { getContentstorageWindow } from './utils';
+
+/**
+ * Global variable the serialized state is assigned to in the HTML payload
+ */
+export const CONTENTSTORAGE_STATE_KEY = '__CONTENTSTORAGE_STATE__';
+
+/**
+ * Load languages on the server and snapshot the resulting state
+ *
+ * Call this while rendering a request, after creating the i18n instance
+ * and before rendering the app, so the locale's messages are available
+ * to the renderer.
+ *
+ * @example
+ * ```typescript
+ * const i18n = createContentstorageI18n({ contentKey: 'your-key', locale: 'en' });
+ * const state = await loadContentstorageState(i18n, ['en']);
+ * const appHtml = await renderToString(app);
+ * const html = `${appHtml}${renderContentstorageStateScript(state)}`;
+ * ```
+ *
+ * @param i18n - ContentStorage i18n instance
+ * @param languages - Languages needed to render the request
+ * @returns Serializable state for the client
+ * @throws Error if a language cannot be loaded
+ */
+export async function loadContentstorageState(
+  i18n: ContentstorageI18n,
+  languages: string[]
+): Promise<ContentstorageState> {
+  await Promise.all(
+    languages.map((language) => i18n.contentStorage.loadLanguage(language))
+  );
+  return i18n.contentStorage.dehydrate();
+}
+
+/**
+ * Serialize state so it can be safely embedded in an inline script
+ * Escapes characters that could close the script tag or break JavaScript parsing.
+ *
+ * @param state - State returned by loadContentstorageState or dehydrate
+ * @returns JSON string safe to inline in HTML
+ */
+export function serializeContentstorageState(state: ContentstorageState): string {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Render an inline script that exposes the state to the client
+ *
+ * @param state - State returned by loadContentstorageState or dehydrate
+ * @param nonce - Optional CSP nonce for the script tag
+ * @returns Script tag HTML
+ */
+export function renderContentstorageStateScript(
+  state: ContentstorageState,
+  nonce?: string
+): string {
+  const nonceAttribute = nonce ? ` nonce="${nonce.replace(/"/g, '&quot;')}"` : '';
+  return `<script${nonceAttribute}>window.${CONTENTSTORAGE_STATE_KEY}=${serializeContentstorageState(state)}</script>`;
+}
+
+/**
+ * Read the state rendered by the server on the client
+ *
+ * @returns The serialized state, or undefined if not present (or on the server)
+ */
+export function getContentstorageInitialState(): ContentstorageState | undefined {
+  return getContentstorageWindow()?.__CONTENTSTORAGE_STATE__;
+}
@@ -1,5 +1,6 @@
 import type { I18n, Composer, VueI18n } from 'vue-i18n';
 import type { ContentstorageVueI18nOptions } from './types';
+import { ContentstorageEventEmitter } from './events';
 import {
   detectLiveEditorMode,
   initializeMemoryMap,
@@ -12,7 +13,119 @@ import {
   getNestedValue,
   getContentstorageWindow,
   isBrowser,
+  isPlainObject,
+  splitPluralForms,
 } from './utils';
+import { mapLocaleCode } from './locale';
+import { resolveLinkedMessage, type LinkedFragment } from './linked';
+
+/**
+ * Looks up the content source a key was loaded from
+ */
+export type KeySourceResolver = (
+  language: string,
+  key: string,
+  namespace?: string
+) => string | undefined;
+
+/**
+ * Key and interpolation values of a t() call
+ */
+interface TranslateCall {
+  key: string;
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * What is known about a message being tracked
+ */
+interface MessageContext {
+  /** Messages of the locale, to resolve linked references */
+  messages?: unknown;
+  /** Interpolation values of the t() call */
+  variables?: Record<string, unknown>;
+  /** Rendered text, to tell plural forms apart */
+  rendered?: string;
+  /** Name of the component whose local messages the message comes from */
+  scope?: string;
+}
+
+/**
+ * vue-i18n's internal registry of component-local instances
+ * useI18n({ useScope: 'local' }), SFC <i18n> blocks and, in legacy mode,
+ * components with i18n options register their Composer/VueI18n through it.
+ */
+interface I18nInstanceRegistry {
+  __setInstance?: (component: unknown, instance: Composer | VueI18n) => void;
+}
+
+/**
+ * Get the name of a component instance, as Vue devtools shows it
+ * Components with <script setup> are named after their file (__name).
+ */
+function getComponentName(component: unknown): string {
+  const type = isPlainObject(component) ? component.type : undefined;
+  if (isPlainObject(type) || typeof type === 'function') {
+    const { name, __name } = type as { name?: unknown; __name?: unknown };
+    if (typeof name === 'string' && name) return name;
+    if (typeof __name === 'string' && __name) return __name;
+  }
+  return 'Anonymous';
+}
+
+/**
+ * Translate functions wrapped to capture interpolation values
+ * tc only exists in legacy mode.
+ */
+const TRANSLATE_METHODS = ['t', 'tc'] as const;
+
+/**
+ * Get the interpolation values passed to t()/tc() after the key
+ * List values are keyed by index. A plural count is exposed as count and n
+ * unless named values set them, as vue-i18n does when interpolating.
+ *
+ * @param args - Arguments after the key
+ * @returns Values by placeholder name, or undefined if there are none
+ */
+function getInterpolationVariables(args: unknown[]): Record<string, unknown> | undefined {
+  let variables: Record<string, unknown> | undefined;
+  let plural: number | undefined;
+
+  for (const arg of args) {
+    if (typeof arg === 'number') {
+      plural = arg;
+    } else if (!variables && (Array.isArray(arg) || isPlainObject(arg))) {
+      variables = { ...arg };
+    } else if (isPlainObject(arg) && typeof arg.plural === 'number') {
+      // TranslateOptions following the named/list values
+      plural = arg.plural;
+    }
+  }
+
+  if (plural !== undefined) {
+    variables = { count: plural, n: plural, ...variables };
+  }
+  return variables && Object.keys(variables).length > 0 ? variables : undefined;
+}
+
+/**
+ * Find the plural forms rendered text can come from
+ * A form equal to the text wins; otherwise interpolations in a form match
+ * any text and the rest must match literally.
+ */
+function findRenderedForms(forms: string[], rendered: string): string[] {
+  if (forms.includes(rendered)) {
+    return [rendered];
+  }
+
+  return forms.filter((form) => {
+    const pattern = form
+      .split(/\{[^{}]*\}/)
+      .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[\\s\\S]*');
+    return new RegExp(`^${pattern}$`).test(rendered);
+  });
+}
 
 /**
  * ContentStorage Translation Tracker for vue-i18n
@@ -34,8 +147,31 @@ export class ContentstorageTracker {
   private options: ContentstorageVueI18nOptions;
   private isLiveMode: boolean = false;
   private attached: boolean = false;
+  private namespaces: Set<string> = new Set();
+  private keySourceResolver: KeySourceResolver | null = null;
+  /** t() calls in progress, innermost last */
+  private translateCalls: TranslateCall[] = [];
+  /** Keys each message links to with @: */
+  private links: Map<string, Set<string>> = new Map();
+  /** Component-local instances the tracker is installed on */
+  private localInstances: WeakSet<Composer | VueI18n> = new WeakSet();
 
-  constructor(options: ContentstorageVueI18nOptions = {}) {
+  /**
+   * Lifecycle event emitter (tracked, memoryMapCleared, liveModeDetected,
+   * liveEditorScriptLoaded)
+   */
+  readonly events: ContentstorageEventEmitter;
+
+  /**
+   * @param options - Tracker configuration options
+   * @param events - Optional emitter shared with other components
+   *                 (defaults to a new emitter with options.hooks)
+   */
+  constructor(
+    options: ContentstorageVueI18nOptions = {},
+    events?: ContentstorageEventEmitter
+  ) {
+    this.events = events || new ContentstorageEventEmitter(options.hooks);
     this.options = {
       debug: false,
       maxMemoryMapSize: 10000,
@@ -44,6 +180,14 @@ export class ContentstorageTracker {
       ...options,
     };
 
+    // Tracking needs the browser window, so it is a no-op during SSR
+    if (!isBrowser()) {
+      if (this.options.debug) {
+        console.log('[ContentStorage] Running on the server, tracking disabled');
+      }
+      return;
+    }
+
     // Detect live editor mode
     this.isLiveMode = detectLiveEditorMode(
       this.options.liveEditorParam,
@@ -61,22 +205,32 @@ export class ContentstorageTracker {
    * Initialize live editor mode
    */
   private initializeLiveMode(): void {
+    this.events.emit('liveModeDetected', {});
+
     // Initialize memory map
     initializeMemoryMap();
 
-    // Expose refresh function for live editor
+    // Expose refresh and save functions for live editor
     this.exposeRefreshFunction();
+    this.exposeSaveFunction();
 
     // Load the live editor script
     loadLiveEditorScript(
-      2,
+      this.options.retry || 2,
       3000,
       this.options.debug,
-      this.options.customLiveEditorScriptUrl
+      this.options.customLiveEditorScriptUrl,
+      {
+        integrity: this.options.liveEditorScriptIntegrity,
+        crossOrigin: this.options.liveEditorScriptCrossOrigin,
+        nonce: this.options.cspNonce,
+        trustedTypesPolicy: this.options.trustedTypesPolicy,
+      }
     ).then((loaded) => {
       if (loaded && this.options.debug) {
         console.log('[ContentStorage] Live editor script loaded');
       }
+      this.events.emit('liveEditorScriptLoaded', { loaded });
     });
 
     if (this.options.debug) {
@@ -98,13 +252,34 @@ export class ContentstorageTracker {
       if (this.options.debug) {
         console.log('[ContentStorage] Refresh triggered: memoryMap cleared');
       }
+
+      this.events.emit('memoryMapCleared', {});
     };
 
     if (this.options.debug) {
-      console.log('[ContentStorage] Refresh function exposed on window.__contentstorageRefresh');
+      console.log(
+        '[ContentStorage] Refresh function exposed on window.__contentstorageRefresh'
+      );
     }
   }
 
+  /**
+   * Expose a function on window for live-editor.js to call after saving
+   * Emits editorSaved, so draft bundles can be reloaded for preview.
+   */
+  private exposeSaveFunction(): void {
+    const win = getContentstorageWindow();
+    if (!win) return;
+
+    win.__contentstorageSaved = () => {
+      if (this.options.debug) {
+        console.log('[ContentStorage] Live editor saved changes');
+      }
+
+      this.events.emit('editorSaved', {});
+    };
+  }
+
   /**
    * Attach the tracker to a vue-i18n instance
    *
@@ -135,11 +310,17 @@ export class ContentstorageTracker {
     // Set initial language
     const locale = this.getLocale(globalInstance);
     if (locale) {
-      setCurrentLanguageCode(locale);
+      setCurrentLanguageCode(this.toLanguageCode(locale));
     }
 
     // Set up the postTranslation handler
-    this.setupPostTranslationHandler(i18n, globalInstance);
+    this.setupPostTranslationHandler(globalInstance);
+
+    // Capture interpolation values, which postTranslation does not receive
+    this.wrapTranslateFunctions(globalInstance);
+
+    // Track component-local scopes as components create them
+    this.watchLocalInstances(i18n, globalInstance);
 
     // Note: We don't pre-load all translations anymore.
     // memoryMap is populated gradually as $t() is called.
@@ -163,6 +344,40 @@ export class ContentstorageTracker {
     return null;
   }
 
+  /**
+   * Install the tracker on each component-local Composer/VueI18n vue-i18n registers
+   *
+   * Local instances have their own messages and postTranslation handler, so
+   * translations they resolve never reach the global handler. Registration
+   * happens before useI18n() returns and before legacy $t is first called, so
+   * the wrapped t() is what components use. Keys a local scope falls back to
+   * the root for are tracked by the global instance.
+   */
+  private watchLocalInstances(i18n: I18n, globalInstance: Composer | VueI18n): void {
+    const registry = i18n as unknown as I18nInstanceRegistry;
+    const setInstance = registry.__setInstance;
+    if (typeof setInstance !== 'function') {
+      if (this.options.debug) {
+        console.log(
+          '[ContentStorage] vue-i18n does not expose local scopes, tracking the global scope only'
+        );
+      }
+      return;
+    }
+
+    registry.__setInstance = (component, instance) => {
+      setInstance.call(i18n, component, instance);
+
+      // Legacy mode registers the global VueI18n for components without i18n options
+      if (instance === globalInstance || this.localInstances.has(instance)) return;
+
+      this.localInstances.add(instance);
+      const scope = getComponentName(component);
+      this.setupPostTranslationHandler(instance, scope);
+      this.wrapTranslateFunctions(instance);
+    };
+  }
+
   /**
    * Get the current locale from the instance
    */
@@ -219,8 +434,14 @@ export class ContentstorageTracker {
 
   /**
    * Set up the postTranslation handler to intercept translations
+   *
+   * @param instance - Global or component-local instance
+   * @param scope - Component name, for a local instance
    */
-  private setupPostTranslationHandler(_i18n: I18n, instance: Composer | VueI18n): void {
+  private setupPostTranslationHandler(
+    instance: Composer | VueI18n,
+    scope?: string
+  ): void {
     // Get existing handler if any
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let existingHandler: ((translated: any, key: string) => any) | null = null;
@@ -236,9 +457,12 @@ export class ContentstorageTracker {
     // vue-i18n's PostTranslationHandler can receive string or array types
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const handler = (translated: any, key: string): any => {
-      // Only track string translations (skip arrays/plurals)
+      // Strings, or the parts rendered by <i18n-t> (only text parts are compared)
       if (typeof translated === 'string') {
-        this.handleTranslation(translated, key, instance);
+        this.handleTranslation(translated, key, instance, scope);
+      } else if (Array.isArray(translated)) {
+        const text = translated.filter((part) => typeof part === 'string').join('');
+        this.handleTranslation(text, key, instance, scope);
       }
 
       // Call existing handler if present
@@ -264,7 +488,40 @@ export class ContentstorageTracker {
     }
 
     if (this.options.debug) {
-      console.log('[ContentStorage] postTranslation handler set up');
+      console.log(
+        scope
+          ? `[ContentStorage] postTranslation handler set up for local scope ${scope}`
+          : '[ContentStorage] postTranslation handler set up'
+      );
+    }
+  }
+
+  /**
+   * Wrap the instance's t (and legacy tc) to record the interpolation values
+   * of each call, read back by handleTranslation
+   * Wrapped before app.use(i18n), so $t in templates calls the wrapper too.
+   */
+  private wrapTranslateFunctions(instance: Composer | VueI18n): void {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const target = instance as any;
+
+    for (const method of TRANSLATE_METHODS) {
+      const original = target[method];
+      if (typeof original !== 'function') continue;
+
+      target[method] = (...args: unknown[]) => {
+        const [key, ...rest] = args;
+        if (typeof key !== 'string') {
+          return original.apply(instance, args);
+        }
+
+        this.translateCalls.push({ key, variables: getInterpolationVariables(rest) });
+        try {
+          return original.apply(instance, args);
+        } finally {
+          this.translateCalls.pop();
+        }
+      };
     }
   }
 
@@ -274,46 +531,253 @@ export class ContentstorageTracker {
   private handleTranslation(
     translated: string,
     key: string,
-    instance: Composer | VueI18n
+    instance: Composer | VueI18n,
+    scope?: string
   ): void {
     const language = this.getLocale(instance);
 
     // Update current language code
     if (language) {
-      setCurrentLanguageCode(language);
+      setCurrentLanguageCode(this.toLanguageCode(language));
     }
 
     // Try to get the template (with placeholders) instead of the interpolated value
     // This is the key approach to work around postTranslation's limitation
-    let template = translated;
+    let template: string | null = null;
+    const messages = language ? this.getLocaleMessages(instance, language) : null;
 
-    if (language) {
-      const messages = this.getLocaleMessages(instance, language);
-      if (messages) {
-        const templateValue = getNestedValue(messages, key);
-        if (templateValue && typeof templateValue === 'string') {
-          template = templateValue;
+    if (messages) {
+      const templateValue = getNestedValue(messages, key);
+      if (templateValue && typeof templateValue === 'string') {
+        template = templateValue;
+      }
+    }
+
+    // Track the template, which contains {placeholder} syntax, with the
+    // values the wrapped t() call interpolated
+    const call = this.translateCalls[this.translateCalls.length - 1];
+    const variables = call && call.key === key ? call.variables : undefined;
+    const { key: contentKey, namespace } = this.splitNamespace(key);
+    if (template !== null) {
+      this.trackMessage(template, contentKey, namespace, language || undefined, {
+        messages,
+        variables,
+        rendered: translated,
+        scope,
+      });
+    } else {
+      this.track(
+        translated,
+        contentKey,
+        namespace,
+        language || undefined,
+        variables,
+        scope ? { scope } : undefined
+      );
+    }
+
+    // Cleanup if memory map is too large
+    if (this.options.maxMemoryMapSize) {
+      cleanupMemoryMap(this.options.maxMemoryMapSize);
+    }
+  }
+
+  /**
+   * Split a message key into its registered namespace and the key within it
+   * Namespaced messages live under a "<namespace>." key prefix.
+   */
+  private splitNamespace(key: string): { key: string; namespace?: string } {
+    const separator = key.indexOf('.');
+    const prefix = separator === -1 ? '' : key.slice(0, separator);
+
+    if (!this.namespaces.has(prefix)) {
+      return { key };
+    }
+    return { key: key.slice(separator + 1), namespace: prefix };
+  }
+
+  /**
+   * Map an app locale to the language code reported to the live editor
+   * Locales are reported as-is unless a localeMapping is configured.
+   *
+   * @param locale - App locale code
+   * @returns Language code for the live editor and memory map metadata
+   */
+  toLanguageCode(locale: string): string {
+    const { localeMapping } = this.options;
+    return localeMapping ? mapLocaleCode(locale, localeMapping) : locale;
+  }
+
+  /**
+   * Track a message, resolving linked messages and splitting plural forms
+   * Linked messages (@:key) are tracked under their own keys as rendered
+   * (modifiers applied), and the message with them resolved under its key.
+   * Plural forms are each tracked under the message key, with the full
+   * message in their metadata; given the rendered text, only the forms it can
+   * come from are tracked (all of them if none matches).
+   * Messages of a component-local scope record the component as their scope.
+   */
+  private trackMessage(
+    message: string,
+    key: string,
+    namespace: string | undefined,
+    locale: string | undefined,
+    context: MessageContext = {}
+  ): void {
+    const { messages, variables, rendered, scope } = context;
+    const fullKey = namespace ? `${namespace}.${key}` : key;
+    let resolved = message;
+    let linkedKeys: string[] | undefined;
+
+    if (messages && message.includes('@')) {
+      const linked = resolveLinkedMessage(
+        message,
+        (linkedKey) => getNestedValue(messages, linkedKey),
+        variables,
+        fullKey
+      );
+      if (linked.fragments.length > 0) {
+        resolved = linked.message;
+        this.recordLinks(linked.fragments);
+        linkedKeys = this.getLinkedKeys(fullKey);
+
+        for (const fragment of linked.fragments) {
+          const target = this.splitNamespace(fragment.key);
+          this.track(
+            fragment.message,
+            target.key,
+            target.namespace,
+            locale,
+            undefined,
+            scope ? { scope } : undefined
+          );
         }
       }
     }
 
-    // Track the translation
-    // Note: We don't have access to interpolation variables in postTranslation
-    // So we track the template which contains {placeholder} syntax
+    const forms = splitPluralForms(resolved);
+    if (forms.length === 1) {
+      this.track(resolved, key, namespace, locale, variables, {
+        ...(linkedKeys && { linkedKeys }),
+        ...(scope && { scope }),
+      });
+      return;
+    }
+
+    const matching =
+      rendered !== undefined ? findRenderedForms(forms, rendered.trim()) : [];
+    for (const form of matching.length > 0 ? matching : forms) {
+      this.track(form, key, namespace, locale, variables, {
+        pluralMessage: message,
+        ...(linkedKeys && { linkedKeys }),
+        ...(scope && { scope }),
+      });
+    }
+  }
+
+  /**
+   * Add the links between resolved linked messages to the dependency graph
+   */
+  private recordLinks(fragments: LinkedFragment[]): void {
+    for (const { key, parent } of fragments) {
+      if (parent === undefined) continue;
+
+      const linked = this.links.get(parent) || new Set<string>();
+      linked.add(key);
+      this.links.set(parent, linked);
+    }
+  }
+
+  /**
+   * Get the keys a message links to with @:
+   * Links are recorded as messages are tracked.
+   *
+   * @param key - Message key (with its namespace prefix, as passed to t())
+   * @returns Linked keys
+   */
+  getLinkedKeys(key: string): string[] {
+    return Array.from(this.links.get(key) || []);
+  }
+
+  /**
+   * Get the keys of the messages that link to a key with @:
+   * Editing the key's message changes how these messages render.
+   *
+   * @param key - Message key (with its namespace prefix, as passed to t())
+   * @returns Keys of the linking messages
+   */
+  getLinkingKeys(key: string): string[] {
+    const linking: string[] = [];
+    this.links.forEach((linked, parent) => {
+      if (linked.has(key)) {
+        linking.push(parent);
+      }
+    });
+    return linking;
+  }
+
+  /**
+   * Track a translation in the memory map and emit the tracked event
+   */
+  private track(
+    value: string,
+    key: string,
+    namespace?: string,
+    locale?: string,
+    variables?: Record<string, unknown>,
+    details?: { pluralMessage?: string; linkedKeys?: string[]; scope?: string }
+  ): void {
+    const language = locale && this.toLanguageCode(locale);
+    const source =
+      locale && this.keySourceResolver
+        ? this.keySourceResolver(locale, key, namespace)
+        : undefined;
     trackTranslation(
-      template,
+      value,
       key,
-      undefined, // vue-i18n doesn't use namespaces like i18next
-      language || undefined,
-      this.options.debug
+      namespace,
+      language,
+      this.options.debug,
+      variables,
+      source,
+      details
     );
 
-    // Cleanup if memory map is too large
-    if (this.options.maxMemoryMapSize) {
-      cleanupMemoryMap(this.options.maxMemoryMapSize);
+    if (this.events.has('tracked')) {
+      this.events.emit('tracked', {
+        key,
+        value,
+        language,
+        ...(namespace && { namespace }),
+        ...(source && { source }),
+        ...(variables && { variables }),
+        ...(details?.scope && { scope: details.scope }),
+      });
     }
   }
 
+  /**
+   * Set how the content source of a tracked key is looked up
+   * The source name is recorded in memory map metadata and tracked events.
+   *
+   * @param resolver - Returns the source name for an app locale, key and
+   *                   namespace; pass null to stop recording sources
+   */
+  setKeySourceResolver(resolver: KeySourceResolver | null): void {
+    this.keySourceResolver = resolver;
+  }
+
+  /**
+   * Register a namespace whose messages are merged under a "<namespace>." key prefix
+   * Translations under the prefix are then tracked with the namespace in their
+   * metadata and with the key relative to the namespace bundle.
+   *
+   * @param namespace - Namespace name
+   */
+  registerNamespace(namespace: string): void {
+    this.namespaces.add(namespace);
+  }
+
   /**
    * Preload all messages from the current locale into memoryMap.
    *
@@ -346,7 +810,8 @@ export class ContentstorageTracker {
 
     for (const [key, value] of flatTranslations) {
       if (!value) continue;
-      trackTranslation(value, key, undefined, locale, this.options.debug);
+      const { key: contentKey, namespace } = this.splitNamespace(key);
+      this.trackMessage(value, contentKey, namespace, locale, { messages });
     }
 
     if (this.options.debug) {
@@ -362,15 +827,26 @@ export class ContentstorageTracker {
    *
    * @param messages - Translation messages to track
    * @param language - Language code for these messages
+   * @param namespace - Optional namespace the messages were loaded for
    */
-  trackMessages(messages: Record<string, unknown>, language: string): void {
+  trackMessages(
+    messages: Record<string, unknown>,
+    language: string,
+    namespace?: string
+  ): void {
+    if (namespace) {
+      this.registerNamespace(namespace);
+    }
+
     if (!this.isLiveMode) return;
 
     const flatTranslations = flattenTranslations(messages);
 
+    // Links within the bundle resolve against it under its namespace prefix
+    const context = { messages: namespace ? { [namespace]: messages } : messages };
     for (const [key, value] of flatTranslations) {
       if (!value) continue;
-      trackTranslation(value, key, undefined, language, this.options.debug);
+      this.trackMessage(value, key, namespace, language, context);
     }
 
     // Cleanup if needed
@@ -404,10 +880,12 @@ export class ContentstorageTracker {
  * Factory function to create a ContentStorage tracker
  *
  * @param options - Tracker configuration options
+ * @param events - Optional event emitter shared with other components
  * @returns ContentstorageTracker instance
  */
 export function createContentstorageTracker(
-  options: ContentstorageVueI18nOptions = {}
+  options: ContentstorageVueI18nOptions = {},
+  events?: ContentstorageEventEmitter
 ): ContentstorageTracker {
-  return new ContentstorageTracker(options);
+  return new ContentstorageTracker(options, events);
 }
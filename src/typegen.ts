@@ -0,0 +1,139 @@
+import type { MessageTypesOptions, TranslationData } from './types';
+import { flattenTranslations } from './utils';
+
+/**
+ * First line of generated files, also used to recognize them
+ */
+const GENERATED_HEADER =
+  '// Generated by contentstorage-typegen from a Contentstorage bundle. Do not edit.';
+
+/**
+ * Format an object key as a property name, quoting it if needed
+ */
+function formatProperty(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Render the nested schema of a bundle as interface members
+ */
+function renderSchema(messages: TranslationData, indent: string): string[] {
+  const lines: string[] = [];
+
+  for (const key of Object.keys(messages)) {
+    const value = messages[key];
+    if (typeof value === 'object' && value !== null) {
+      // Arrays become objects keyed by index, matching keys such as 'features.0'
+      lines.push(`${indent}${formatProperty(key)}: {`);
+      lines.push(...renderSchema(value, `${indent}  `));
+      lines.push(`${indent}};`);
+    } else if (typeof value === 'string') {
+      lines.push(`${indent}${formatProperty(key)}: string;`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Get the interpolation parameters of a message
+ * Named ({name}) and list ({0}) placeholders are returned in order of first
+ * use; literal interpolations such as {'@'} are skipped.
+ *
+ * @param message - vue-i18n message
+ * @returns Parameter names
+ */
+export function extractMessageParams(message: string): string[] {
+  const params: string[] = [];
+  const pattern = /\{\s*([^{}\s'"]+)\s*\}/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(message)) !== null) {
+    if (!params.includes(match[1])) {
+      params.push(match[1]);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Generate a .d.ts declaring the message schema of a bundle
+ *
+ * Declares <prefix>Messages (the nested schema), <prefix>MessageKey (every
+ * dotted key) and <prefix>MessageParams (interpolation parameters per key),
+ * and by default augments vue-i18n's DefineLocaleMessage with the schema so
+ * t() only accepts known keys.
+ *
+ * @example
+ * ```typescript
+ * const source = generateMessageTypes(await loader.loadTranslations('en'));
+ * await writeFile('src/contentstorage-messages.d.ts', source);
+ * ```
+ *
+ * @param messages - Bundle to derive the types from
+ * @param options - Generator options
+ * @returns Contents of the .d.ts file
+ */
+export function generateMessageTypes(
+  messages: TranslationData,
+  options: MessageTypesOptions = {}
+): string {
+  const { typePrefix = 'Contentstorage', augmentVueI18n = true } = options;
+  const flat = flattenTranslations(messages);
+
+  const keys = flat.map(([key]) => `  | ${JSON.stringify(key)}`);
+  const params = flat
+    .map(([key, value]) => [key, extractMessageParams(value)] as const)
+    .filter(([, names]) => names.length > 0)
+    .map(
+      ([key, names]) =>
+        `  ${JSON.stringify(key)}: { ${names
+          .map((name) => `${formatProperty(name)}: string | number;`)
+          .join(' ')} };`
+    );
+
+  const lines = [
+    GENERATED_HEADER,
+    '',
+    `export interface ${typePrefix}Messages {`,
+    ...renderSchema(messages, '  '),
+    '}',
+    '',
+    keys.length > 0
+      ? [`export type ${typePrefix}MessageKey =`, ...keys].join('\n') + ';'
+      : `export type ${typePrefix}MessageKey = never;`,
+    '',
+    `export interface ${typePrefix}MessageParams {`,
+    ...params,
+    '}',
+  ];
+
+  if (augmentVueI18n) {
+    lines.push(
+      '',
+      "declare module 'vue-i18n' {",
+      `  export interface DefineLocaleMessage extends ${typePrefix}Messages {}`,
+      '}'
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Check if a generated .d.ts matches a bundle
+ * Line endings are ignored, so files checked out on Windows still match.
+ *
+ * @param messages - Bundle the file should describe
+ * @param existing - Current contents of the file
+ * @param options - Options the file was generated with
+ * @returns true if the file is up to date
+ */
+export function isMessageTypesUpToDate(
+  messages: TranslationData,
+  existing: string,
+  options: MessageTypesOptions = {}
+): boolean {
+  return existing.replace(/\r\n/g, '\n') === generateMessageTypes(messages, options);
+}
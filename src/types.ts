@@ -18,6 +18,14 @@ export interface MemoryMapEntry {
     language?: string;
     /** Timestamp when tracked */
     trackedAt?: number;
+    /** Name of the content source the key was loaded from */
+    source?: string;
+    /** Full pipe-separated message, when the value is one of its plural forms */
+    pluralMessage?: string;
+    /** Keys the message links to with @:, resolved in the value */
+    linkedKeys?: string[];
+    /** Component whose local messages (useI18n or an <i18n> block) hold the key */
+    scope?: string;
   };
 }
 
@@ -35,6 +43,15 @@ export interface ContentstorageWindow extends Window {
   __contentStorageDebug?: boolean;
   currentLanguageCode?: string;
   __contentstorageRefresh?: () => void;
+  __contentstorageSaved?: () => void;
+  __CONTENTSTORAGE_STATE__?: ContentstorageState;
+  /** Trusted Types API, in browsers that support it */
+  trustedTypes?: {
+    createPolicy(
+      name: string,
+      rules: { createScriptURL(input: string): string }
+    ): TrustedTypesPolicyLike;
+  };
 }
 
 /**
@@ -63,18 +80,128 @@ export interface ContentstorageVueI18nOptions {
 
   /**
    * Custom path for loading translations
-   * Can be a string with {{lng}} placeholder or a function
+   * Can be a string with {{lng}} and {{ns}} placeholders or a function.
+   * Loading namespaces requires a {{ns}} placeholder (or a function using namespace).
    * @example '{{lng}}.json'
-   * @example (lng) => `https://api.example.com/translations/${lng}`
+   * @example '/locales/{{lng}}/{{ns}}.json'
+   * @example (lng, ns) => `https://api.example.com/translations/${lng}/${ns ?? 'common'}`
+   */
+  loadPath?: string | ((language: string, namespace?: string) => string);
+
+  /**
+   * Several sources (content keys or load paths) merged into one set of messages
+   * Each language or namespace bundle is loaded from every source and
+   * deep-merged, higher priority sources overriding lower ones. When set,
+   * contentKey and loadPath are ignored by the loader.
+   * @example [{ name: 'design-system', contentKey: 'ds-key', prefix: 'ds' }, { name: 'app', contentKey: 'app-key', priority: 1 }]
+   */
+  contentSources?: ContentSource[];
+
+  /**
+   * Load draft bundles instead of published ones in live editor mode
+   * Lets editors preview unpublished changes; bundles are reloaded when the
+   * editor signals a save.
+   * @default undefined (published bundles are loaded in live editor mode too)
+   */
+  preview?: PreviewOptions;
+
+  /**
+   * Import bundles inlined at build time instead of fetching them
+   * Typically importTranslations from the 'virtual:contentstorage' module
+   * generated by the build plugin. Draft bundles are still fetched in preview mode.
+   * @example import { importTranslations } from 'virtual:contentstorage';
+   */
+  importTranslations?: (language: string, namespace?: string) => Promise<TranslationData>;
+
+  /**
+   * Mapping from app locales to Contentstorage language codes
+   * When set, the mapped code is used in the loader URL (including {{lng}}),
+   * reported to the live editor and stored in memory map metadata.
+   * Without it, only the default CDN URL uppercases the locale.
    */
-  loadPath?: string | ((language: string) => string);
+  localeMapping?: LocaleMapping;
 
   /**
    * Custom fetch implementation
-   * Useful for adding auth headers or custom logic
+   * Useful for adding auth headers or custom logic.
+   * Return either the parsed translation data, or a fetch Response (or any
+   * object matching TranslationResponse) to enable conditional requests:
+   * the loader then reads ETag/Last-Modified and treats 304 as "not modified".
+   * Forward `options.headers` so If-None-Match/If-Modified-Since reach the server.
    */
   request?: (url: string, options: RequestInit) => Promise<unknown>;
 
+  /**
+   * Timeout in milliseconds for a single translation request
+   * When exceeded, the request is aborted and loading rejects with a timeout error.
+   * @default undefined (no timeout)
+   */
+  requestTimeout?: number;
+
+  /**
+   * Retry policy for failed requests
+   * Applies to translation loading and to the live editor script.
+   * @default single attempt for translations; 2 attempts 3s apart for the script
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Ordered list of fallback base URLs tried when the primary URL fails
+   * The path of the primary URL is appended to each base URL.
+   * @example ['https://mirror.example.com']
+   */
+  mirrorUrls?: string[];
+
+  /**
+   * Build-time fallback messages per locale
+   * Used until (and when) CDN translations cannot be loaded.
+   * @example { en: { welcome: 'Welcome' } }
+   */
+  bundledMessages?: Record<string, TranslationData>;
+
+  /**
+   * How CDN translations are combined with bundled messages
+   * - 'merge': CDN messages are deep-merged over bundled messages
+   * - 'bundled-only': only bundled messages are used, nothing is fetched
+   * - 'cdn-only': only CDN messages are used, bundled messages are ignored
+   * @default 'merge'
+   */
+  mergeStrategy?: MessageMergeStrategy;
+
+  /**
+   * Additional file formats, checked before the built-in ones
+   * (JSON, YAML, gettext PO and XLIFF)
+   */
+  formats?: TranslationFormat[];
+
+  /**
+   * Syntax of messages in fetched bundles
+   * 'icu' converts ICU MessageFormat (plurals, quoting) to vue-i18n syntax.
+   * @default 'vue-i18n'
+   */
+  messageSyntax?: MessageSyntax;
+
+  /**
+   * Transformers applied to parsed bundles before validation, in order
+   */
+  transformers?: TranslationTransformer[];
+
+  /**
+   * Validation of fetched translation payloads
+   * Non-object payloads are always rejected; set to false to skip the
+   * per-key checks (value types, message syntax).
+   * @default { onInvalid: 'omit', sanitizeHtml: false }
+   */
+  validation?: boolean | TranslationValidationOptions;
+
+  /**
+   * Lifecycle event handlers
+   * Registered before anything loads, so early events like liveModeDetected are received.
+   * More handlers can be added at runtime with contentStorage.on().
+   * @example { loadError: ({ language, error }) => reportError(error) }
+   */
+  hooks?: ContentstorageEventHooks;
+
   /**
    * Query parameter name for live editor detection
    * @default 'contentstorage_live_editor'
@@ -95,6 +222,37 @@ export interface ContentstorageVueI18nOptions {
    */
   customLiveEditorScriptUrl?: string;
 
+  /**
+   * Subresource Integrity hash(es) of the live editor script
+   * Sets the script's integrity attribute (and crossorigin, see below).
+   * @example 'sha384-oqVuAfXRKap7fdgcCY5uykM6+R9GqQ8K/uxy9rx7HNQlGYl1kPzQho1wx4JwY8wC'
+   */
+  liveEditorScriptIntegrity?: string;
+
+  /**
+   * crossorigin attribute of the live editor script
+   * @default 'anonymous' when liveEditorScriptIntegrity is set
+   */
+  liveEditorScriptCrossOrigin?: 'anonymous' | 'use-credentials';
+
+  /**
+   * CSP nonce set on elements the plugin injects (the live editor script)
+   */
+  cspNonce?: string;
+
+  /**
+   * Trusted Types policy used to create the live editor script URL
+   * A string creates a policy with that name that only allows the configured
+   * script URL; pass an existing policy to reuse it.
+   */
+  trustedTypesPolicy?: string | TrustedTypesPolicyLike;
+
+  /**
+   * Verify fetched bundles against a manifest of hashes or signatures
+   * Bundles that cannot be verified are rejected with a BundleIntegrityError.
+   */
+  integrity?: BundleIntegrityOptions;
+
   /**
    * Languages to preload from CDN on initialization
    */
@@ -106,6 +264,746 @@ export interface ContentstorageVueI18nOptions {
    * @default false (only tracking by default)
    */
   enableCdnLoading?: boolean;
+
+  /**
+   * Persistent cache for loaded translations
+   * Cached bundles are served instantly on the next page load and
+   * revalidated in the background (stale-while-revalidate).
+   * Use 'localStorage', 'indexedDB' or a custom adapter.
+   * @default undefined (in-memory cache only)
+   */
+  persistentCache?: TranslationCacheAdapter | 'localStorage' | 'indexedDB';
+
+  /**
+   * Maximum age in milliseconds of persistently cached bundles
+   * Older entries are ignored and translations are fetched from the network.
+   * @default 604800000 (7 days)
+   */
+  persistentCacheTtl?: number;
+
+  /**
+   * Limits of the in-memory cache of loaded bundles
+   * @default undefined (bundles stay cached until clearCache())
+   */
+  memoryCache?: MemoryCacheOptions;
+
+  /**
+   * Periodically check loaded bundles for newly published content
+   * Changed messages are swapped into vue-i18n and reported with a
+   * contentUpdated event. Browser only.
+   * @default false
+   */
+  refresh?: boolean | RefreshOptions;
+
+  /**
+   * Collect keys vue-i18n cannot resolve and report them in batches
+   * A missing handler passed to vue-i18n is still called, and its result used.
+   * @default false
+   */
+  missingKeys?: boolean | MissingKeyOptions;
+}
+
+/**
+ * Minimal Trusted Types policy used for the live editor script URL
+ */
+export interface TrustedTypesPolicyLike {
+  createScriptURL(url: string): unknown;
+}
+
+/**
+ * Attributes of the injected live editor script
+ */
+export interface LiveEditorScriptOptions {
+  /** Subresource Integrity hash(es) */
+  integrity?: string;
+  /** crossorigin attribute (defaults to 'anonymous' with integrity) */
+  crossOrigin?: 'anonymous' | 'use-credentials';
+  /** CSP nonce */
+  nonce?: string;
+  /** Trusted Types policy, or the name of a policy to create */
+  trustedTypesPolicy?: string | TrustedTypesPolicyLike;
+}
+
+/**
+ * Manifest of expected bundle hashes or signatures
+ * Keys are bundle keys: the language code, or "language:namespace" for
+ * namespace bundles. Values are SRI-style hashes ('sha256-<base64>',
+ * space-separated for several) or anything a custom verify function accepts.
+ */
+export type BundleIntegrityManifest = Record<string, string>;
+
+/**
+ * A source of translations merged with others by the loader
+ */
+export interface ContentSource {
+  /** Unique name, recorded in memory map metadata for keys this source provides */
+  name: string;
+  /** ContentStorage content key of the source */
+  contentKey?: string;
+  /** Custom load path of the source (takes precedence over contentKey) */
+  loadPath?: string | ((language: string, namespace?: string) => string);
+  /** Key prefix the source's messages are nested under, e.g. 'ds' or 'ui.ds' */
+  prefix?: string;
+  /**
+   * Sources with a higher priority override keys of lower ones; sources with
+   * equal priority override earlier ones in the list
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * Load bundles without this source when it fails, instead of failing the load
+   * @default false
+   */
+  optional?: boolean;
+  /** Draft bundles of the source, loaded in live editor mode */
+  preview?: PreviewOptions;
+}
+
+/**
+ * Where draft bundles are loaded from in live editor mode
+ */
+export interface PreviewOptions {
+  /**
+   * Load path of draft bundles, with {{lng}} and {{ns}} placeholders or a function
+   * @example 'https://api.example.com/drafts/{{lng}}.json'
+   */
+  loadPath: string | ((language: string, namespace?: string) => string);
+
+  /**
+   * Extra headers for draft requests, e.g. the editor's session token
+   * Called for every request, so tokens can be refreshed.
+   */
+  headers?: (url: string) => Record<string, string> | Promise<Record<string, string>>;
+
+  /**
+   * Reload loaded bundles when the live editor signals a save
+   * @default true
+   */
+  reloadOnSave?: boolean;
+}
+
+/**
+ * Options for verifying fetched bundles
+ */
+export interface BundleIntegrityOptions {
+  /**
+   * The manifest, a URL to fetch it from, or a function loading it
+   * Entries are keyed by language or 'language:namespace'; with contentSources,
+   * by '<source>:<language>' or '<source>:<language>:<namespace>'. URL and
+   * function manifests are reloaded once when a bundle doesn't match, so newly
+   * published bundles are picked up.
+   */
+  manifest: BundleIntegrityManifest | string | (() => Promise<BundleIntegrityManifest>);
+
+  /**
+   * Custom verification, e.g. of signatures
+   * Defaults to comparing the SHA-256/384/512 hash of the raw response body.
+   * @param body - Raw response body
+   * @param expected - Manifest entry for the bundle
+   * @param context - Bundle being verified
+   * @returns true if the bundle is authentic
+   */
+  verify?: (
+    body: string,
+    expected: string,
+    context: TranslationTransformContext
+  ) => boolean | Promise<boolean>;
+}
+
+/**
+ * Reason a bundle failed integrity verification
+ */
+export type BundleIntegrityFailure =
+  'manifest-unavailable' | 'missing-entry' | 'missing-body' | 'mismatch';
+
+/**
+ * Options for background refresh of loaded bundles
+ */
+export interface RefreshOptions {
+  /**
+   * Time between checks in milliseconds while the page is visible
+   * @default 300000 (5 minutes)
+   */
+  interval?: number;
+
+  /**
+   * Also check when the window regains focus or becomes visible
+   * (at most once every 30 seconds)
+   * @default true
+   */
+  onFocus?: boolean;
+
+  /**
+   * Multiplier applied to the interval after each check while the page is hidden
+   * @default 2
+   */
+  hiddenBackoff?: number;
+
+  /**
+   * Upper bound for the interval while the page is hidden, in milliseconds
+   * @default 3600000 (1 hour)
+   */
+  maxInterval?: number;
+}
+
+/**
+ * Options for collecting missing keys
+ * Reports go to onReport if set, otherwise to endpoint. Without either, they
+ * are only emitted as missingKeysReported events.
+ */
+export interface MissingKeyOptions {
+  /**
+   * Receives each batch of reports
+   */
+  onReport?: (reports: MissingKeyReport[]) => void | Promise<void>;
+
+  /**
+   * URL the batches are POSTed to as JSON ({ missingKeys: reports })
+   * Sent with navigator.sendBeacon when the page is hidden or unloaded.
+   */
+  endpoint?: string;
+
+  /**
+   * Headers for endpoint requests (not sent with sendBeacon)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Time in milliseconds to wait after a new report before flushing
+   * @default 10000
+   */
+  flushInterval?: number;
+
+  /**
+   * Number of distinct reports that triggers an immediate flush
+   * @default 50
+   */
+  batchSize?: number;
+
+  /**
+   * Get the route reported with each key
+   * @default () => window.location.pathname (undefined on the server)
+   */
+  getRoute?: () => string | undefined;
+
+  /**
+   * Return true to skip a key
+   */
+  ignore?: (key: string, locale: string) => boolean;
+}
+
+/**
+ * A missing key, deduplicated per locale and route
+ */
+export interface MissingKeyReport {
+  key: string;
+  locale: string;
+  route?: string;
+  /** Number of lookups since the last flush */
+  count: number;
+  /** Timestamp of the first lookup since the last flush */
+  firstSeen: number;
+  /** Timestamp of the latest lookup */
+  lastSeen: number;
+}
+
+/**
+ * Message keys that differ between two versions of a bundle
+ * Keys use dot notation, with array indexes as segments (e.g. 'steps.0').
+ */
+export interface TranslationDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+}
+
+/**
+ * Newer content found for a loaded bundle
+ */
+export interface TranslationUpdate {
+  language: string;
+  /** Namespace, for namespace bundles */
+  namespace?: string;
+  /** Keys that changed, relative to the bundle */
+  changes: TranslationDiff;
+}
+
+/**
+ * Payloads of lifecycle events, by event name
+ * source names the content source of a bundle when contentSources are configured.
+ */
+export interface ContentstorageEventMap {
+  /** A network request for a bundle started */
+  loadStart: {
+    language: string;
+    namespace?: string;
+    url: string;
+    background: boolean;
+    source?: string;
+  };
+  /** A bundle was loaded from the network (notModified on 304) */
+  loadSuccess: {
+    language: string;
+    namespace?: string;
+    url: string;
+    background: boolean;
+    duration: number;
+    notModified: boolean;
+    source?: string;
+  };
+  /** Loading a bundle failed */
+  loadError: {
+    language: string;
+    namespace?: string;
+    url: string;
+    background: boolean;
+    error: unknown;
+    source?: string;
+  };
+  /** Newer content replaced a cached bundle (background refresh or revalidation) */
+  contentUpdated: TranslationUpdate;
+  /** Translations were served from a cache */
+  cacheHit: {
+    language: string;
+    namespace?: string;
+    cache: 'memory' | 'persistent';
+    source?: string;
+  };
+  /** Invalid keys were dropped from a fetched bundle (validation onInvalid: 'omit') */
+  validationIssues: {
+    language: string;
+    namespace?: string;
+    url: string;
+    issues: TranslationValidationIssue[];
+    source?: string;
+  };
+  /** A bundle was evicted from the in-memory cache */
+  cacheEvicted: { language: string; namespace?: string; reason: CacheEvictionReason };
+  /** A translation was added to the memory map */
+  tracked: {
+    key: string;
+    value: string;
+    language?: string;
+    namespace?: string;
+    source?: string;
+    /** Interpolation values of the t() call, when tracked from one */
+    variables?: Record<string, unknown>;
+    /** Component whose local scope the translation comes from */
+    scope?: string;
+  };
+  /** vue-i18n looked up a key that is not in the messages (first lookup per batch) */
+  missingKey: { key: string; locale: string; route?: string };
+  /** A batch of missing keys was reported (error is set if the sink failed) */
+  missingKeysReported: { reports: MissingKeyReport[]; error?: unknown };
+  /** The memory map was cleared by the live editor */
+  memoryMapCleared: Record<string, never>;
+  /** The live editor saved changes (draft bundles can be reloaded) */
+  editorSaved: Record<string, never>;
+  /** Live editor mode was detected */
+  liveModeDetected: Record<string, never>;
+  /** The live editor script finished loading (or gave up) */
+  liveEditorScriptLoaded: { loaded: boolean };
+}
+
+/**
+ * Name of a lifecycle event
+ */
+export type ContentstorageEventName = keyof ContentstorageEventMap;
+
+/**
+ * Handler for a lifecycle event
+ */
+export type ContentstorageEventHandler<K extends ContentstorageEventName> = (
+  payload: ContentstorageEventMap[K]
+) => void;
+
+/**
+ * Lifecycle event handlers passed through options
+ */
+export type ContentstorageEventHooks = {
+  [K in ContentstorageEventName]?: ContentstorageEventHandler<K>;
+};
+
+/**
+ * Strategy for combining CDN translations with bundled messages
+ */
+export type MessageMergeStrategy = 'merge' | 'bundled-only' | 'cdn-only';
+
+/**
+ * Source that ultimately served a locale's messages
+ * - 'cdn': CDN translations only
+ * - 'bundled': bundled messages only
+ * - 'merged': CDN translations merged over bundled messages
+ */
+export type TranslationSource = 'cdn' | 'bundled' | 'merged';
+
+/**
+ * Result of loading a language
+ */
+export interface LanguageLoadResult {
+  /** Language code */
+  language: string;
+  /** Source that served the messages */
+  source: TranslationSource;
+  /** CDN error, if bundled messages were used because the CDN failed */
+  error?: unknown;
+  /** Results for the languages vue-i18n falls back to, in chain order */
+  fallbacks?: FallbackLoadResult[];
+}
+
+/**
+ * Result of loading one step of a language's fallback chain
+ * A failed step doesn't fail the load; its error is reported instead.
+ */
+export interface FallbackLoadResult {
+  /** Language code */
+  language: string;
+  /** Source that served the messages (undefined if loading failed) */
+  source?: TranslationSource;
+  /** Error if the fallback language could not be loaded */
+  error?: unknown;
+}
+
+/**
+ * vue-i18n fallbackLocale configuration
+ * A locale, a list of locales, or a map from locale (or 'default') to fallbacks.
+ */
+export type FallbackLocaleConfig =
+  string | string[] | Record<string, string | string[]> | false;
+
+/**
+ * Case applied to Contentstorage language codes
+ * - 'upper': 'pt-BR' → 'PT-BR'
+ * - 'lower': 'pt-BR' → 'pt-br'
+ * - 'preserve': keep the (normalized) code as-is
+ */
+export type LocaleCase = 'upper' | 'lower' | 'preserve';
+
+/**
+ * Mapping from app locales to Contentstorage language codes
+ */
+export interface LocaleMapping {
+  /**
+   * Explicit app locale → Contentstorage code map
+   * Mapped codes are used verbatim (no normalization or case policy).
+   * @example { 'en-US': 'EN', 'zh-TW': 'zh-Hant' }
+   */
+  map?: Record<string, string>;
+
+  /**
+   * Normalize codes to BCP 47 form before applying the case policy
+   * ('pt_br' → 'pt-BR', 'zh-hant' → 'zh-Hant')
+   * @default true
+   */
+  normalize?: boolean;
+
+  /**
+   * Case policy for codes not found in the map
+   * @default 'upper'
+   */
+  case?: LocaleCase;
+}
+
+/**
+ * File format of translation bundles
+ * Selected by the response Content-Type, then by the URL's file extension.
+ */
+export interface TranslationFormat {
+  /** Format name (e.g. 'yaml') */
+  name: string;
+  /** File extensions without the dot (e.g. ['yaml', 'yml']) */
+  extensions: string[];
+  /** MIME types (e.g. ['application/yaml']) */
+  contentTypes: string[];
+  /**
+   * Parse a response body
+   * @throws Error if the body is malformed
+   */
+  parse(body: string): unknown;
+}
+
+/**
+ * Bundle a transformer is applied to
+ */
+export interface TranslationTransformContext {
+  /** Language code */
+  language: string;
+  /** Namespace, for namespace bundles */
+  namespace?: string;
+  /** URL the bundle was loaded from */
+  url: string;
+}
+
+/**
+ * Transformer applied to parsed bundles before validation
+ */
+export type TranslationTransformer = (
+  translations: TranslationData,
+  context: TranslationTransformContext
+) => TranslationData;
+
+/**
+ * Syntax of messages in fetched bundles
+ */
+export type MessageSyntax = 'vue-i18n' | 'icu';
+
+/**
+ * Options for validating fetched translation payloads
+ */
+export interface TranslationValidationOptions {
+  /**
+   * What to do with a bundle that has invalid keys
+   * - 'omit': drop the offending keys and use the rest of the bundle, reporting
+   *   them with a validationIssues event
+   * - 'reject': fail the load with a TranslationValidationError
+   * @default 'omit'
+   */
+  onInvalid?: 'reject' | 'omit';
+
+  /**
+   * Strip script-like elements, inline event handlers and javascript: URLs
+   * from messages. A basic safeguard, not a replacement for a full HTML
+   * sanitizer when rendering messages with v-html.
+   * @default false
+   */
+  sanitizeHtml?: boolean;
+}
+
+/**
+ * Kind of problem found in a translation payload
+ * - 'invalid-payload': the payload is not an object
+ * - 'invalid-type': a value is not a string, object or array
+ * - 'invalid-placeholder': unbalanced or empty `{}` placeholders
+ * - 'invalid-linked-message': malformed `@:` / `@.modifier:` reference
+ */
+export type TranslationIssueType =
+  'invalid-payload' | 'invalid-type' | 'invalid-placeholder' | 'invalid-linked-message';
+
+/**
+ * Problem found in a translation payload
+ */
+export interface TranslationValidationIssue {
+  /** Dot-notation key of the offending value ('' for the payload itself) */
+  key: string;
+  /** Kind of problem */
+  type: TranslationIssueType;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Retry policy with exponential backoff
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts per URL (1 = no retries)
+   */
+  attempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds
+   * @default 1000
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each retry (1 = constant delay)
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * Fraction of each delay that is randomized (0 = no jitter, 1 = full jitter)
+   * @default 0.5
+   */
+  jitter?: number;
+
+  /**
+   * HTTP status codes that are retried
+   * Network errors and timeouts are always retried.
+   * @default [408, 429, 500, 502, 503, 504]
+   */
+  retryableStatuses?: number[];
+}
+
+/**
+ * Minimal response shape understood by the loader
+ * Compatible with the fetch API Response.
+ */
+export interface TranslationResponse {
+  /** HTTP status code (304 means the cached bundle is still valid) */
+  status: number;
+  /** HTTP status text */
+  statusText?: string;
+  /** Whether the status is in the 2xx range (derived from status if omitted) */
+  ok?: boolean;
+  /** Response headers (used to read ETag and Last-Modified) */
+  headers?: { get(name: string): string | null };
+  /** Parse the response body */
+  json(): Promise<unknown>;
+  /** Read the response body as text (required for non-JSON formats) */
+  text?(): Promise<string>;
+}
+
+/**
+ * HTTP validators remembered for conditional requests
+ */
+export interface BundleValidators {
+  /** ETag header of the last response */
+  etag?: string;
+  /** Last-Modified header of the last response */
+  lastModified?: string;
+}
+
+/**
+ * Translation bundle as stored in a persistent cache
+ */
+export interface PersistedTranslations extends BundleValidators {
+  /** The translation bundle */
+  data: TranslationData;
+  /** Timestamp when the bundle was fetched or last validated */
+  timestamp: number;
+}
+
+/**
+ * Options of the build plugin that inlines translations as virtual modules
+ * Bundles are loaded with the same loadPath/contentKey rules (and formats,
+ * transformers, validation, content sources) as at runtime. Relative and
+ * absolute file paths are read from disk instead of fetched.
+ */
+export interface ContentstorageBuildPluginOptions extends Pick<
+  ContentstorageVueI18nOptions,
+  | 'contentKey'
+  | 'loadPath'
+  | 'contentSources'
+  | 'localeMapping'
+  | 'request'
+  | 'requestTimeout'
+  | 'retry'
+  | 'formats'
+  | 'messageSyntax'
+  | 'transformers'
+  | 'validation'
+  | 'debug'
+> {
+  /** Languages listed by the 'virtual:contentstorage' module */
+  languages: string[];
+
+  /**
+   * Namespaces of each language listed by the 'virtual:contentstorage' module
+   * @default []
+   */
+  namespaces?: string[];
+
+  /**
+   * Directory that relative file paths in loadPath are resolved against
+   * Root-absolute paths ('/locales/{{lng}}.json') are read from Vite's public
+   * directory, then from this directory.
+   * @default the Vite root, or the current working directory
+   */
+  root?: string;
+}
+
+/**
+ * Options of the message type generator
+ */
+export interface MessageTypesOptions {
+  /**
+   * Prefix of the generated type names (<prefix>Messages, <prefix>MessageKey,
+   * <prefix>MessageParams)
+   * @default 'Contentstorage'
+   */
+  typePrefix?: string;
+
+  /**
+   * Augment vue-i18n's DefineLocaleMessage with the generated schema
+   * @default true
+   */
+  augmentVueI18n?: boolean;
+}
+
+/**
+ * Limits of the loader's in-memory cache
+ */
+export interface MemoryCacheOptions {
+  /**
+   * Time in milliseconds after which a cached bundle is reloaded on next use
+   * @default undefined (never expires)
+   */
+  ttl?: number;
+
+  /**
+   * Maximum number of cached languages (a language's namespaces count with it)
+   * The least recently used languages are evicted first.
+   * @default undefined (unlimited)
+   */
+  maxLanguages?: number;
+
+  /**
+   * Remove evicted languages' messages from vue-i18n, unless the language is
+   * the active locale or one of its fallbacks
+   * @default true
+   */
+  evictMessages?: boolean;
+}
+
+/**
+ * How a cached bundle got into the in-memory cache
+ * - 'network': fetched (or refreshed) from the network
+ * - 'persistent': read from the persistent cache
+ * - 'primed': put there with primeCache(), e.g. from server-rendered state
+ * - 'imported': returned by importTranslations (build-time bundles)
+ */
+export type CacheEntrySource = 'network' | 'persistent' | 'primed' | 'imported';
+
+/**
+ * Information about a bundle in the in-memory cache
+ */
+export interface CacheEntryInfo {
+  /** Language code */
+  language: string;
+  /** Namespace, for namespace bundles */
+  namespace?: string;
+  /** How the bundle got into the cache */
+  source: CacheEntrySource;
+  /** Approximate size in bytes (length of the bundle's JSON) */
+  size: number;
+  /** Number of messages in the bundle */
+  keys: number;
+  /** Timestamp when the bundle was cached */
+  cachedAt: number;
+  /** Timestamp when the bundle was last used */
+  lastUsedAt: number;
+  /** Milliseconds since the bundle was cached */
+  age: number;
+  /** Whether the bundle is past memoryCache.ttl and reloads on next use */
+  expired: boolean;
+}
+
+/**
+ * Why bundles were removed from the in-memory cache
+ * - 'lru': memoryCache.maxLanguages was exceeded
+ * - 'expired': pruneCache() removed bundles past memoryCache.ttl
+ */
+export type CacheEvictionReason = 'lru' | 'expired';
+
+/**
+ * Storage adapter for the persistent translation cache
+ * Implement this interface to store bundles in a custom backend.
+ */
+export interface TranslationCacheAdapter {
+  /** Read a cached bundle, or null if not present */
+  get(key: string): Promise<PersistedTranslations | null>;
+  /** Store a bundle */
+  set(key: string, entry: PersistedTranslations): Promise<void>;
+  /** Remove a cached bundle */
+  remove(key: string): Promise<void>;
 }
 
 /**
@@ -119,6 +1017,25 @@ export interface CreateContentstorageI18nOptions
    * @default false (composition mode)
    */
   legacy?: boolean;
+
+  /**
+   * State serialized on the server during SSR
+   * Primes the loader cache and messages so the client doesn't refetch.
+   * @see getContentstorageInitialState
+   */
+  initialState?: ContentstorageState;
+}
+
+/**
+ * Serializable ContentStorage state transferred from server to client
+ */
+export interface ContentstorageState {
+  /** Translations from the loader cache, by language */
+  translations: Record<string, TranslationData>;
+  /** Source that served each loaded language */
+  sources: Record<string, TranslationSource>;
+  /** Namespace bundles from the loader cache, by language and namespace */
+  namespaces?: Record<string, Record<string, TranslationData>>;
 }
 
 /**
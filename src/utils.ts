@@ -1,4 +1,15 @@
-import type { ContentstorageWindow, MemoryMap, MemoryMapEntry } from './types';
+import type {
+  ContentstorageWindow,
+  FallbackLocaleConfig,
+  LiveEditorScriptOptions,
+  MemoryMap,
+  MemoryMapEntry,
+  RetryPolicy,
+  TranslationData,
+  TranslationDiff,
+  TrustedTypesPolicyLike,
+} from './types';
+import { DEFAULT_SCRIPT_RETRY_POLICY, getRetryDelay, resolveRetryPolicy } from './retry';
 
 /**
  * Checks if the code is running in a browser environment
@@ -62,18 +73,82 @@ export function initializeMemoryMap(): MemoryMap | null {
   return win.memoryMap;
 }
 
+/**
+ * Trusted Types policies created by name, as a name can only be used once
+ */
+const trustedTypesPolicies = new Map<string, TrustedTypesPolicyLike>();
+
+/**
+ * Create the value assigned to a script's src
+ * With a Trusted Types policy, a TrustedScriptURL is created so the
+ * assignment passes `require-trusted-types-for 'script'`. Policies created
+ * by name only allow the given URL.
+ *
+ * @param win - Window to create named policies in
+ * @param url - Script URL
+ * @param policy - Policy, or name of a policy to create
+ * @returns The URL, or a TrustedScriptURL for it
+ * @throws Error if the policy cannot be created (e.g. its name is already
+ *         taken under a trusted-types CSP directive) or rejects the URL
+ */
+function createScriptUrl(
+  win: ContentstorageWindow,
+  url: string,
+  policy?: string | TrustedTypesPolicyLike
+): string {
+  if (!policy) return url;
+
+  let resolved: TrustedTypesPolicyLike | undefined;
+  if (typeof policy === 'string') {
+    resolved = trustedTypesPolicies.get(policy);
+    if (!resolved && win.trustedTypes) {
+      resolved = win.trustedTypes.createPolicy(policy, {
+        createScriptURL: (input) => {
+          if (input !== url) {
+            throw new TypeError(`[ContentStorage] Script URL not allowed: ${input}`);
+          }
+          return input;
+        },
+      });
+      trustedTypesPolicies.set(policy, resolved);
+    }
+  } else {
+    resolved = policy;
+  }
+
+  // TrustedScriptURL is accepted wherever the DOM expects a script URL string
+  return resolved ? (resolved.createScriptURL(url) as string) : url;
+}
+
 /**
  * Load the ContentStorage live editor script
  * This script enables the click-to-edit functionality in the live editor
+ *
+ * @param retries - Number of attempts, or a retry policy (which overrides delay)
+ * @param delay - Constant delay between attempts in milliseconds
+ * @param debug - Enable debug logging
+ * @param customScriptUrl - Custom URL for the live editor script
+ * @param scriptOptions - Integrity, crossorigin, CSP nonce and Trusted Types
+ *                        policy for the script element
  */
 let liveEditorReadyPromise: Promise<boolean> | null = null;
 
 export function loadLiveEditorScript(
-  retries: number = 2,
+  retries: number | RetryPolicy = 2,
   delay: number = 3000,
   debug: boolean = false,
-  customScriptUrl?: string
+  customScriptUrl?: string,
+  scriptOptions: LiveEditorScriptOptions = {}
 ): Promise<boolean> {
+  const policy =
+    typeof retries === 'number'
+      ? resolveRetryPolicy(
+          { attempts: retries, baseDelay: delay },
+          DEFAULT_SCRIPT_RETRY_POLICY
+        )
+      : resolveRetryPolicy(retries, DEFAULT_SCRIPT_RETRY_POLICY);
+  const attempts = policy.attempts;
+
   // Return existing promise if already loading
   if (liveEditorReadyPromise) {
     return liveEditorReadyPromise;
@@ -89,17 +164,38 @@ export function loadLiveEditorScript(
     const cdnScriptUrl =
       customScriptUrl ||
       'https://cdn.contentstorage.app/live-editor.js?contentstorage-live-editor=true';
+    const { integrity, crossOrigin, nonce, trustedTypesPolicy } = scriptOptions;
 
     const loadScript = (attempt: number = 1) => {
       if (debug) {
         console.log(
-          `[ContentStorage] Attempting to load live editor script (attempt ${attempt}/${retries})`
+          `[ContentStorage] Attempting to load live editor script (attempt ${attempt}/${attempts})`
         );
       }
 
       const scriptElement = win.document.createElement('script');
       scriptElement.type = 'text/javascript';
-      scriptElement.src = cdnScriptUrl;
+      if (integrity) {
+        scriptElement.integrity = integrity;
+      }
+      // SRI requires a CORS request for cross-origin scripts
+      if (integrity || crossOrigin) {
+        scriptElement.crossOrigin = crossOrigin || 'anonymous';
+      }
+      if (nonce) {
+        scriptElement.nonce = nonce;
+      }
+      // Policy errors would fail every attempt the same way, so give up
+      try {
+        scriptElement.src = createScriptUrl(win, cdnScriptUrl, trustedTypesPolicy);
+      } catch (error) {
+        console.error(
+          '[ContentStorage] Could not create the live editor script URL:',
+          error
+        );
+        resolve(false);
+        return;
+      }
 
       scriptElement.onload = () => {
         if (debug) {
@@ -114,16 +210,16 @@ export function loadLiveEditorScript(
 
         if (debug) {
           console.error(
-            `[ContentStorage] Failed to load live editor script (attempt ${attempt}/${retries})`,
+            `[ContentStorage] Failed to load live editor script (attempt ${attempt}/${attempts})`,
             error
           );
         }
 
-        if (attempt < retries) {
-          setTimeout(() => loadScript(attempt + 1), delay);
+        if (attempt < attempts) {
+          setTimeout(() => loadScript(attempt + 1), getRetryDelay(policy, attempt));
         } else {
           console.error(
-            `[ContentStorage] All ${retries} attempts to load live editor script failed`
+            `[ContentStorage] All ${attempts} attempts to load live editor script failed`
           );
           resolve(false);
         }
@@ -198,10 +294,12 @@ export function normalizeKey(key: string): string {
  *
  * @param translationValue - The actual translated text (or template with placeholders)
  * @param translationKey - The content ID (translation key)
- * @param namespace - Optional namespace (not typically used in vue-i18n)
+ * @param namespace - Optional namespace the translation was loaded for
  * @param language - Optional language code
  * @param debug - Enable debug logging
  * @param variables - Optional interpolation variables used in the translation
+ * @param source - Optional name of the content source the key was loaded from
+ * @param details - Optional plural message, linked keys and local scope of the translation
  */
 export function trackTranslation(
   translationValue: string,
@@ -209,7 +307,12 @@ export function trackTranslation(
   namespace?: string,
   language?: string,
   debug: boolean = false,
-  variables?: Record<string, unknown>
+  variables?: Record<string, unknown>,
+  source?: string,
+  details?: Pick<
+    NonNullable<MemoryMapEntry['metadata']>,
+    'pluralMessage' | 'linkedKeys' | 'scope'
+  >
 ): void {
   const memoryMap = getMemoryMap();
   if (!memoryMap) return;
@@ -236,6 +339,8 @@ export function trackTranslation(
       namespace,
       language,
       trackedAt: Date.now(),
+      ...(source && { source }),
+      ...details,
     },
   };
 
@@ -248,6 +353,8 @@ export function trackTranslation(
       namespace,
       language,
       variables,
+      source,
+      ...details,
     });
   }
 }
@@ -283,9 +390,10 @@ export function cleanupMemoryMap(maxSize: number): void {
 
 /**
  * Deeply traverses a translation object and extracts all string values with their keys
+ * Array items are keyed by index (e.g. 'features.0'), as vue-i18n resolves them.
  *
  * @param obj - Translation object to traverse
- * @param prefix - Current key prefix (for nested objects)
+ * @param prefix - Current key prefix (for nested objects and arrays)
  * @returns Array of [key, value] pairs
  */
 export function flattenTranslations(
@@ -306,8 +414,8 @@ export function flattenTranslations(
 
     if (typeof value === 'string') {
       results.push([fullKey, value]);
-    } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      // Recurse into nested objects
+    } else if (typeof value === 'object' && value !== null) {
+      // Recurse into nested objects and arrays
       results.push(...flattenTranslations(value, fullKey));
     }
   }
@@ -315,6 +423,40 @@ export function flattenTranslations(
   return results;
 }
 
+/**
+ * Split a vue-i18n plural message into its forms
+ * Forms are separated by pipes outside of {} interpolations ({'|'} is a
+ * literal pipe) and trimmed, as vue-i18n does.
+ *
+ * @example splitPluralForms('no cars | one car | {count} cars') // ['no cars', 'one car', '{count} cars']
+ *
+ * @param message - Message source
+ * @returns The forms, or the message itself if it is not a plural message
+ */
+export function splitPluralForms(message: string): string[] {
+  const forms: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < message.length; i++) {
+    const char = message[i];
+    if (char === '{') {
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      forms.push(message.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  if (forms.length === 0) {
+    return [message];
+  }
+  forms.push(message.slice(start).trim());
+  return forms;
+}
+
 /**
  * Debug helper to log memory map contents
  */
@@ -342,6 +484,161 @@ export function debugMemoryMap(): void {
   }
 }
 
+/**
+ * Deep merge two translation objects
+ * Nested objects are merged recursively; other values from source win.
+ *
+ * @param target - Base object
+ * @param source - Object whose values take precedence
+ * @returns A new merged object (inputs are not modified)
+ */
+export function deepMerge<T extends Record<string, unknown>>(target: T, source: T): T {
+  const result: Record<string, unknown> = { ...target };
+
+  for (const key of Object.keys(source)) {
+    const sourceValue = source[key];
+    const targetValue = result[key];
+
+    if (isPlainObject(sourceValue) && isPlainObject(targetValue)) {
+      result[key] = deepMerge(targetValue, sourceValue);
+    } else {
+      result[key] = sourceValue;
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Deep copy messages (nested objects and arrays; other values are shared)
+ *
+ * @param messages - Messages to copy
+ * @returns A copy that can be modified without changing the original
+ */
+export function cloneMessages<T>(messages: T): T {
+  if (Array.isArray(messages)) {
+    return messages.map(cloneMessages) as unknown as T;
+  }
+  if (isPlainObject(messages)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(messages)) {
+      copy[key] = cloneMessages(value);
+    }
+    return copy as T;
+  }
+  return messages;
+}
+
+/**
+ * Check if a value is a plain (non-array) object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Get a locale followed by its implicit parents
+ * e.g. 'zh-Hant-TW' → ['zh-Hant-TW', 'zh-Hant', 'zh']
+ */
+function getLocaleWithParents(locale: string): string[] {
+  const parts = locale.split('-');
+  const locales: string[] = [];
+  for (let i = parts.length; i > 0; i--) {
+    locales.push(parts.slice(0, i).join('-'));
+  }
+  return locales;
+}
+
+/**
+ * Resolve the locales vue-i18n falls back to when a key is missing
+ *
+ * Implicit parents of the locale come first (en-US → en), followed by the
+ * explicit fallbackLocale configuration, each with its own implicit parents.
+ *
+ * @param locale - Locale code (e.g., 'en-US')
+ * @param fallbackLocale - vue-i18n fallbackLocale configuration
+ * @returns Fallback locales in order, without duplicates or the locale itself
+ */
+export function resolveFallbackChain(
+  locale: string,
+  fallbackLocale?: FallbackLocaleConfig
+): string[] {
+  let explicit: string[] = [];
+
+  if (typeof fallbackLocale === 'string') {
+    explicit = [fallbackLocale];
+  } else if (Array.isArray(fallbackLocale)) {
+    explicit = fallbackLocale;
+  } else if (fallbackLocale) {
+    // Locale map: the locale's own entry, then 'default' (as vue-i18n does)
+    explicit = ([] as string[]).concat(
+      fallbackLocale[locale] || [],
+      fallbackLocale.default || []
+    );
+  }
+
+  const chain: string[] = [];
+  for (const candidate of [locale, ...explicit]) {
+    for (const parent of getLocaleWithParents(candidate)) {
+      if (parent !== locale && !chain.includes(parent)) {
+        chain.push(parent);
+      }
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Collect the leaf values of a bundle by dot-notation key
+ * Arrays are traversed with their indexes as key segments.
+ */
+function collectLeaves(
+  value: unknown,
+  prefix: string,
+  leaves: Map<string, unknown>
+): Map<string, unknown> {
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      collectLeaves(child, prefix ? `${prefix}.${key}` : key, leaves);
+    }
+  } else if (prefix) {
+    leaves.set(prefix, value);
+  }
+  return leaves;
+}
+
+/**
+ * Compare two versions of a bundle
+ *
+ * @param previous - Translations currently in use
+ * @param next - Newer translations
+ * @returns Keys added, changed and removed in next
+ */
+export function diffTranslations(
+  previous: TranslationData,
+  next: TranslationData
+): TranslationDiff {
+  const before = collectLeaves(previous, '', new Map());
+  const after = collectLeaves(next, '', new Map());
+  const diff: TranslationDiff = { added: [], changed: [], removed: [] };
+
+  after.forEach((value, key) => {
+    if (!before.has(key)) {
+      diff.added.push(key);
+    } else if (before.get(key) !== value) {
+      diff.changed.push(key);
+    }
+  });
+  before.forEach((_, key) => {
+    if (!after.has(key)) {
+      diff.removed.push(key);
+    }
+  });
+
+  return diff;
+}
+
 /**
  * Get a nested value from an object using dot notation
  *
@@ -0,0 +1,248 @@
+import type {
+  TranslationData,
+  TranslationIssueType,
+  TranslationValidationIssue,
+} from './types';
+import { isPlainObject } from './utils';
+
+/**
+ * Result of validating a translation payload
+ */
+export interface TranslationValidationResult {
+  /** Payload with offending keys omitted (and HTML sanitized, if enabled) */
+  translations: TranslationData;
+  /** Problems found, in key order */
+  issues: TranslationValidationIssue[];
+}
+
+/**
+ * Error thrown when a fetched bundle fails validation
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await loader.loadTranslations('en');
+ * } catch (error) {
+ *   if (error instanceof TranslationValidationError) {
+ *     console.table(error.issues);
+ *   }
+ * }
+ * ```
+ */
+export class TranslationValidationError extends Error {
+  /** Bundle that failed validation (language, or language:namespace) */
+  readonly bundle: string;
+  /** Problems found in the bundle */
+  readonly issues: TranslationValidationIssue[];
+
+  constructor(bundle: string, issues: TranslationValidationIssue[]) {
+    const keys = issues.map((issue) => issue.key || '(payload)');
+    super(
+      `[ContentStorage] Invalid translations for ${bundle}: ${issues.length} issue(s) in ${keys.join(', ')}`
+    );
+    this.name = 'TranslationValidationError';
+    this.bundle = bundle;
+    this.issues = issues;
+  }
+}
+
+// Elements whose content can execute code or restyle the page
+const UNSAFE_ELEMENTS =
+  /<(script|style|iframe|object|embed)\b[^>]*>[\s\S]*?<\/\1\s*>|<(?:script|style|iframe|object|embed)\b[^>]*>/gi;
+const EVENT_HANDLER_ATTRIBUTES = /\s+on[a-z]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi;
+const JAVASCRIPT_URLS =
+  /(\s(?:href|src|action|formaction|xlink:href)\s*=\s*)(?:"\s*javascript:[^"]*"|'\s*javascript:[^']*'|javascript:[^\s>]*)/gi;
+
+/**
+ * Strip unsafe HTML from a message
+ *
+ * @param message - Message text
+ * @returns Message without script-like elements, event handlers or javascript: URLs
+ */
+export function sanitizeMessageHtml(message: string): string {
+  if (!message.includes('<')) return message;
+
+  return message
+    .replace(UNSAFE_ELEMENTS, '')
+    .replace(EVENT_HANDLER_ATTRIBUTES, '')
+    .replace(JAVASCRIPT_URLS, '$1"#"');
+}
+
+/**
+ * Check a message for vue-i18n syntax errors
+ * Detects unbalanced or empty `{}` placeholders and malformed linked messages.
+ * Text inside `{'...'}` literal interpolations is ignored.
+ *
+ * @param message - Message text
+ * @returns The first problem found, or null if the message is valid
+ */
+export function checkMessageSyntax(
+  message: string
+): { type: TranslationIssueType; message: string } | null {
+  let placeholderStart = -1;
+  let inLiteral = false;
+
+  for (let i = 0; i < message.length; i++) {
+    const char = message[i];
+
+    if (placeholderStart !== -1) {
+      if (char === "'") {
+        inLiteral = !inLiteral;
+      } else if (!inLiteral && char === '{') {
+        return { type: 'invalid-placeholder', message: `Nested "{" at position ${i}` };
+      } else if (!inLiteral && char === '}') {
+        if (message.slice(placeholderStart + 1, i).trim() === '') {
+          return {
+            type: 'invalid-placeholder',
+            message: `Empty placeholder at position ${placeholderStart}`,
+          };
+        }
+        placeholderStart = -1;
+      }
+      continue;
+    }
+
+    if (char === '{') {
+      placeholderStart = i;
+    } else if (char === '}') {
+      return { type: 'invalid-placeholder', message: `Unexpected "}" at position ${i}` };
+    } else if (char === '@' && (message[i + 1] === ':' || message[i + 1] === '.')) {
+      const error = checkLinkedMessage(message, i);
+      if (error) {
+        return { type: 'invalid-linked-message', message: error };
+      }
+    }
+  }
+
+  if (placeholderStart !== -1) {
+    return {
+      type: 'invalid-placeholder',
+      message: `Unclosed "{" at position ${placeholderStart}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Check the linked message reference starting at an "@"
+ * Valid forms: `@:key`, `@.modifier:key`, `@:(key)` and `@:{placeholder}`.
+ *
+ * @returns Description of the problem, or null if the reference is valid
+ */
+function checkLinkedMessage(message: string, start: number): string | null {
+  let i = start + 1;
+
+  if (message[i] === '.') {
+    const modifierStart = ++i;
+    while (i < message.length && /[a-zA-Z]/.test(message[i])) i++;
+    if (i === modifierStart) {
+      return `Missing linked modifier at position ${start}`;
+    }
+    if (message[i] !== ':') {
+      return `Expected ":" after linked modifier at position ${start}`;
+    }
+  }
+
+  // message[i] is ':'
+  i++;
+
+  if (message[i] === '(') {
+    const close = message.indexOf(')', i);
+    if (close === -1) {
+      return `Unclosed "(" in linked message at position ${start}`;
+    }
+    if (message.slice(i + 1, close).trim() === '') {
+      return `Empty linked key at position ${start}`;
+    }
+    return null;
+  }
+
+  // The key is given by a placeholder, checked as such
+  if (message[i] === '{') {
+    return null;
+  }
+
+  if (i >= message.length || !/[\w\-.]/.test(message[i])) {
+    return `Empty linked key at position ${start}`;
+  }
+
+  return null;
+}
+
+/**
+ * Describe the type of a value for error messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validate a translation payload
+ *
+ * The payload must be an object whose values are strings, nested objects or
+ * arrays of those. Strings are checked for vue-i18n syntax errors. Offending
+ * keys are reported and omitted from the returned translations.
+ *
+ * @param data - Parsed payload
+ * @param options - Validation options
+ * @returns Cleaned translations and the problems found
+ */
+export function validateTranslations(
+  data: unknown,
+  options: { sanitizeHtml?: boolean } = {}
+): TranslationValidationResult {
+  if (!isPlainObject(data)) {
+    return {
+      translations: {},
+      issues: [
+        {
+          key: '',
+          type: 'invalid-payload',
+          message: `Expected an object, received ${describeType(data)}`,
+        },
+      ],
+    };
+  }
+
+  const issues: TranslationValidationIssue[] = [];
+
+  const validate = (value: unknown, key: string): unknown => {
+    if (typeof value === 'string') {
+      const error = checkMessageSyntax(value);
+      if (error) {
+        issues.push({ key, ...error });
+        return undefined;
+      }
+      return options.sanitizeHtml ? sanitizeMessageHtml(value) : value;
+    }
+
+    if (Array.isArray(value)) {
+      return value
+        .map((item, index) => validate(item, `${key}.${index}`))
+        .filter((item) => item !== undefined);
+    }
+
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const childKey of Object.keys(value)) {
+        const child = validate(value[childKey], key ? `${key}.${childKey}` : childKey);
+        if (child !== undefined) {
+          result[childKey] = child;
+        }
+      }
+      return result;
+    }
+
+    issues.push({
+      key,
+      type: 'invalid-type',
+      message: `Unsupported value type: ${describeType(value)}`,
+    });
+    return undefined;
+  };
+
+  return { translations: validate(data, '') as TranslationData, issues };
+}